@@ -1,23 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
-  SafeAreaView,
-  StatusBar,
-  StyleSheet,
   Alert,
+  BackHandler,
 } from 'react-native';
 
 import { MenuScreen } from './src/screens/MenuScreen';
 import { GameScreen } from './src/screens/GameScreen';
+import { DailyScreen } from './src/screens/DailyScreen';
+import { ImportScreen } from './src/screens/ImportScreen';
+import { StatsScreen } from './src/screens/StatsScreen';
+import { SettingsScreen } from './src/screens/SettingsScreen';
+import { HistoryScreen } from './src/screens/HistoryScreen';
+import { AchievementsScreen } from './src/screens/AchievementsScreen';
+import { LoadingScreen } from './src/screens/LoadingScreen';
+import { ThemeProvider } from './src/theme/ThemeProvider';
 import { GameManager } from './src/game/GameManager';
+import { PuzzlePool } from './src/game/PuzzlePool';
+import { DailyChallenge } from './src/game/DailyChallenge';
+import { Achievements } from './src/game/Achievements';
 import { Storage } from './src/utils/Storage';
-import { Difficulty, GameData } from './src/types/game';
+import {
+  Achievement,
+  ConstraintType,
+  Difficulty,
+  GameData,
+  GameHistoryEntry,
+  GenerationProgress,
+  GridSize,
+  ImportedPuzzle,
+  SymbolSet,
+  UserPreferences,
+  Variant,
+} from './src/types/game';
 
-type AppState = 'menu' | 'game' | 'stats' | 'settings';
+type AppState = 'menu' | 'generating' | 'game' | 'daily' | 'import' | 'stats' | 'history' | 'achievements' | 'settings';
 
-function App(): JSX.Element {
+function App(): React.JSX.Element {
   const [appState, setAppState] = useState<AppState>('menu');
   const [gameManager] = useState(() => new GameManager());
   const [isLoading, setIsLoading] = useState(true);
+  const [hasSavedGame, setHasSavedGame] = useState(false);
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  // Settings opened from a paused game go back to that game
+  const [settingsOpenedFromGame, setSettingsOpenedFromGame] = useState(false);
+  const [generatingDifficulty, setGeneratingDifficulty] = useState<Difficulty>('easy');
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const generationController = useRef<AbortController | null>(null);
+  // The screen generation was started from, shown again if it is cancelled
+  const generationOrigin = useRef<AppState>('menu');
 
   useEffect(() => {
     initializeApp();
@@ -27,62 +57,234 @@ function App(): JSX.Element {
     };
   }, []);
 
+  useEffect(() => {
+    if (appState !== 'generating') return;
+
+    // Backing out while a puzzle is generated cancels it
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleCancelGeneration();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [appState]);
+
   const initializeApp = async () => {
     try {
       // Initialize storage and load user preferences
-      const preferences = await Storage.getUserPreferences();
-      console.log('Loaded user preferences:', preferences);
+      await loadPreferences();
       
       // Check for saved game
       const savedGame = await Storage.loadCurrentGame();
-      if (savedGame) {
+      if (savedGame && !savedGame.isCompleted) {
+        setHasSavedGame(true);
         Alert.alert(
           'Continue Game',
           'You have a saved game in progress. Would you like to continue?',
           [
             { 
               text: 'New Game', 
-              onPress: () => Storage.clearCurrentGame(),
+              onPress: async () => {
+                await Storage.abandonCurrentGame();
+                setHasSavedGame(false);
+              },
               style: 'destructive'
             },
             { 
               text: 'Continue', 
-              onPress: () => {
-                // TODO: Implement resume game functionality
-                console.log('Resume game:', savedGame);
-              }
+              onPress: () => resumeGame(savedGame)
             },
           ]
         );
       }
       
       setIsLoading(false);
+
+      // Top up the puzzle pool while the player is on the menu
+      PuzzlePool.scheduleRefill();
     } catch (error) {
       console.error('Error initializing app:', error);
       setIsLoading(false);
     }
   };
 
-  const handleStartGame = async (difficulty: Difficulty) => {
+  const loadPreferences = async () => {
+    const savedPreferences = await Storage.getUserPreferences();
+    setPreferences(savedPreferences);
+    gameManager.setAutoCandidates(savedPreferences.autoCandidates);
+    gameManager.setErrorCheckMode(savedPreferences.errorCheckMode);
+  };
+
+  const handleChangePreferences = (changes: Partial<UserPreferences>) => {
+    setPreferences(current => current && { ...current, ...changes });
+    if (changes.autoCandidates !== undefined) {
+      gameManager.setAutoCandidates(changes.autoCandidates);
+    }
+    if (changes.errorCheckMode !== undefined) {
+      gameManager.setErrorCheckMode(changes.errorCheckMode);
+    }
+    Storage.updateUserPreferences(changes);
+  };
+
+  // Imported backups and cleared data replace preferences and may remove
+  // the saved game
+  const handleDataChanged = async () => {
+    await loadPreferences();
+    const savedGame = await Storage.loadCurrentGame();
+    setHasSavedGame(!!savedGame && !savedGame.isCompleted);
+  };
+
+  const beginGenerating = (difficulty: Difficulty, origin: AppState): AbortController => {
+    const controller = new AbortController();
+    generationController.current = controller;
+    generationOrigin.current = origin;
+    setGeneratingDifficulty(difficulty);
+    setGenerationProgress(null);
+    setAppState('generating');
+    return controller;
+  };
+
+  const handleStartGame = async (
+    difficulty: Difficulty,
+    size: GridSize,
+    symbols: SymbolSet,
+    variant: Variant,
+    constraints: ConstraintType[]
+  ) => {
+    const controller = beginGenerating(difficulty, 'menu');
     try {
-      await gameManager.startNewGame(difficulty);
-      setAppState('game');
+      const started = await gameManager.startNewGame(difficulty, undefined, {
+        signal: controller.signal,
+        onProgress: setGenerationProgress,
+        size,
+        symbols,
+        variant,
+        constraints,
+      });
+      if (started) {
+        setAppState('game');
+      }
     } catch (error) {
       console.error('Error starting game:', error);
+      setAppState('menu');
       Alert.alert(
         'Error',
         'Failed to start new game. Please try again.',
         [{ text: 'OK' }]
       );
+    } finally {
+      if (generationController.current === controller) {
+        generationController.current = null;
+      }
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationController.current?.abort();
+    generationController.current = null;
+    setAppState(generationOrigin.current);
+    PuzzlePool.scheduleRefill();
+  };
+
+  const resumeGame = (savedGame: GameData) => {
+    gameManager.loadGame(savedGame);
+    setAppState('game');
+  };
+
+  const handleContinueGame = async () => {
+    const savedGame = await Storage.loadCurrentGame();
+    if (savedGame && !savedGame.isCompleted) {
+      resumeGame(savedGame);
+    } else {
+      setHasSavedGame(false);
+      Alert.alert('No Saved Game', 'There is no game in progress to continue.', [{ text: 'OK' }]);
+    }
+  };
+
+  const handleStartDaily = async (date: string, isReplay: boolean) => {
+    const controller = beginGenerating(DailyChallenge.getDifficulty(date), 'daily');
+    try {
+      const started = await gameManager.startDailyChallenge(date, isReplay, {
+        signal: controller.signal,
+        onProgress: setGenerationProgress,
+      });
+      if (!started) return;
+      setAppState('game');
+
+      // Record the attempt so the calendar shows started-but-unfinished days
+      const gameData = gameManager.getGameData();
+      if (gameData) {
+        await Storage.recordDailyResult(gameData);
+      }
+    } catch (error) {
+      console.error('Error starting daily challenge:', error);
+      setAppState('daily');
+      Alert.alert(
+        'Error',
+        'Failed to start the daily challenge. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      if (generationController.current === controller) {
+        generationController.current = null;
+      }
+    }
+  };
+
+  const handleImportPuzzle = async (puzzle: ImportedPuzzle) => {
+    try {
+      await gameManager.startImportedGame(puzzle);
+      setAppState('game');
+    } catch (error) {
+      console.error('Error starting imported game:', error);
+      Alert.alert(
+        'Error',
+        'Failed to start the imported puzzle. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  const handleReplayGame = async (entry: GameHistoryEntry) => {
+    try {
+      await gameManager.replayGame(entry);
+      setAppState('game');
+    } catch (error) {
+      console.error('Error replaying game:', error);
+      Alert.alert(
+        'Error',
+        'Failed to start the puzzle again. Please try again.',
+        [{ text: 'OK' }]
+      );
     }
   };
 
-  const handleBackToMenu = () => {
+  const handleBackToMenu = async () => {
     setAppState('menu');
+    PuzzlePool.scheduleRefill();
+    const savedGame = await Storage.loadCurrentGame();
+    setHasSavedGame(!!savedGame && !savedGame.isCompleted);
   };
 
-  const handleGameComplete = async (gameData: GameData) => {
+  const handleShowSettings = (fromGame: boolean) => {
+    setSettingsOpenedFromGame(fromGame);
+    setAppState('settings');
+  };
+
+  const handleCloseSettings = async () => {
+    // Clearing data from settings also removes the paused game
+    const savedGame = settingsOpenedFromGame ? await Storage.loadCurrentGame() : null;
+    if (savedGame && !savedGame.isCompleted) {
+      resumeGame(savedGame);
+    } else {
+      handleBackToMenu();
+    }
+  };
+
+  const handleGameComplete = async (gameData: GameData): Promise<Achievement[]> => {
     try {
+      // Archive the game first so starting another one can't also archive it as abandoned
+      await Storage.addGameHistory(gameData, 'completed');
+
       // Update statistics
       await Storage.updateGameStats(gameData);
       
@@ -90,68 +292,108 @@ function App(): JSX.Element {
       if (gameData.isCompleted) {
         await Storage.addHighScore(gameData);
       }
+
+      if (gameData.daily) {
+        await Storage.recordDailyResult(gameData);
+      }
       
       // Clear current game since it's completed
       await Storage.clearCurrentGame();
+      setHasSavedGame(false);
+
+      // Checked last so the rules see the updated statistics and streak
+      return await Achievements.check(gameData);
     } catch (error) {
       console.error('Error handling game completion:', error);
+      return [];
     }
   };
 
-  const handleShowStats = () => {
-    Alert.alert(
-      'Statistics',
-      'Statistics screen will be implemented in future updates.',
-      [{ text: 'OK' }]
-    );
-  };
-
-  const handleShowSettings = () => {
-    Alert.alert(
-      'Settings',
-      'Settings screen will be implemented in future updates.',
-      [{ text: 'OK' }]
-    );
-  };
-
-  if (isLoading) {
-    // TODO: Add proper loading screen
-    return (
-      <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="light-content" backgroundColor="#2C3E50" />
-      </SafeAreaView>
-    );
-  }
-
-  switch (appState) {
-    case 'game':
-      return (
-        <GameScreen
-          gameManager={gameManager}
-          onBackToMenu={handleBackToMenu}
-          onGameComplete={handleGameComplete}
-        />
-      );
+  const renderScreen = () => {
+    if (isLoading || !preferences) {
+      return <LoadingScreen title="Loading..." />;
+    }
+
+    switch (appState) {
+      case 'generating':
+        return (
+          <LoadingScreen
+            title="Generating Puzzle"
+            subtitle={generatingDifficulty.toUpperCase()}
+            progress={generationProgress}
+            onCancel={handleCancelGeneration}
+          />
+        );
+
+      case 'game':
+        return (
+          <GameScreen
+            gameManager={gameManager}
+            preferences={preferences}
+            onBackToMenu={handleBackToMenu}
+            onPlayAgain={handleStartGame}
+            onGameComplete={handleGameComplete}
+            onShowSettings={() => handleShowSettings(true)}
+          />
+        );
     
-    case 'menu':
-    default:
-      return (
-        <MenuScreen
-          onStartGame={handleStartGame}
-          onShowStats={handleShowStats}
-          onShowSettings={handleShowSettings}
-        />
-      );
-  }
-}
+      case 'daily':
+        return (
+          <DailyScreen
+            onPlayDaily={handleStartDaily}
+            onBack={handleBackToMenu}
+          />
+        );
+
+      case 'import':
+        return (
+          <ImportScreen
+            onImport={handleImportPuzzle}
+            onBack={handleBackToMenu}
+          />
+        );
+
+      case 'stats':
+        return <StatsScreen onBack={handleBackToMenu} />;
+
+      case 'history':
+        return <HistoryScreen onReplay={handleReplayGame} onBack={handleBackToMenu} />;
+
+      case 'achievements':
+        return <AchievementsScreen onBack={handleBackToMenu} />;
+
+      case 'settings':
+        return (
+          <SettingsScreen
+            preferences={preferences}
+            onChangePreferences={handleChangePreferences}
+            onDataChanged={handleDataChanged}
+            onBack={handleCloseSettings}
+          />
+        );
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#2C3E50',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-});
+      case 'menu':
+      default:
+        return (
+          <MenuScreen
+            onStartGame={handleStartGame}
+            onContinueGame={hasSavedGame ? handleContinueGame : undefined}
+            onShowDaily={() => setAppState('daily')}
+            onShowImport={() => setAppState('import')}
+            onShowStats={() => setAppState('stats')}
+            onShowHistory={() => setAppState('history')}
+            onShowAchievements={() => setAppState('achievements')}
+            onShowSettings={() => handleShowSettings(false)}
+          />
+        );
+    }
+  };
+
+  return (
+    <ThemeProvider mode={preferences?.theme ?? 'light'} palette={preferences?.palette ?? 'standard'}>
+      {renderScreen()}
+    </ThemeProvider>
+  );
+}
 
 export default App;
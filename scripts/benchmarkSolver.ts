@@ -0,0 +1,158 @@
+/**
+ * Compares the bitmask solver with the previous backtracking solver on
+ * seeded puzzles. Run with `npm run benchmark:solver [seedCount]`.
+ */
+import { BitmaskSolver } from '../src/game/BitmaskSolver';
+import { SudokuEngine } from '../src/game/SudokuEngine';
+import { SeededRandom } from '../src/utils/Random';
+import { CellValue, Difficulty, Position, SudokuGrid } from '../src/types/game';
+
+type Counter = (grid: SudokuGrid) => number;
+type Timings = { backtrackingCheck: number; bitmaskCheck: number; backtrackingRemoval: number; bitmaskRemoval: number };
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const MAX_CELLS_TO_REMOVE = 64;
+
+/**
+ * The scan-every-cell backtracking counter the engine used before
+ */
+const countWithBacktracking: Counter = grid => {
+  const working = SudokuEngine.cloneGrid(grid);
+  let count = 0;
+
+  const search = (): void => {
+    if (count >= 2) return;
+
+    for (let row = 0; row < 9; row++) {
+      for (let col = 0; col < 9; col++) {
+        if (working[row][col] === null) {
+          for (let num = 1; num <= 9; num++) {
+            if (SudokuEngine.isValidMove(working, row, col, num as CellValue)) {
+              working[row][col] = num as CellValue;
+              search();
+              working[row][col] = null;
+            }
+          }
+          return;
+        }
+      }
+    }
+    count++;
+  };
+
+  search();
+  return count;
+};
+
+const countWithBitmask: Counter = grid => BitmaskSolver.countSolutions(grid, 2)!;
+
+/**
+ * Replays the generator's cell removal, checking uniqueness after every
+ * removal, and returns the resulting puzzle
+ */
+const removeCells = (solution: SudokuGrid, order: Position[], countSolutions: Counter): SudokuGrid => {
+  const puzzle = SudokuEngine.cloneGrid(solution);
+  let removed = 0;
+
+  for (const { row, col } of order) {
+    if (removed >= MAX_CELLS_TO_REMOVE) break;
+
+    const backup = puzzle[row][col];
+    puzzle[row][col] = null;
+    if (countSolutions(puzzle) === 1) {
+      removed++;
+    } else {
+      puzzle[row][col] = backup;
+    }
+  }
+
+  return puzzle;
+};
+
+const shuffledPositions = (seed: number): Position[] => {
+  const random = new SeededRandom(seed);
+  const positions: Position[] = [];
+  for (let row = 0; row < 9; row++) {
+    for (let col = 0; col < 9; col++) {
+      positions.push({ row, col });
+    }
+  }
+  for (let i = positions.length - 1; i > 0; i--) {
+    const j = random.nextInt(i + 1);
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+  return positions;
+};
+
+const time = <T>(run: () => T): { result: T; ms: number } => {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+};
+
+const sameGrid = (a: SudokuGrid, b: SudokuGrid): boolean =>
+  a.every((row, r) => row.every((value, c) => value === b[r][c]));
+
+const report = (label: string, ms: Timings, runs: number) => {
+  const format = (value: number) => `${(value / runs).toFixed(2)}ms`;
+  const speedup = (before: number, after: number) => `${(before / Math.max(after, 0.001)).toFixed(1)}x`;
+
+  console.log(label.toUpperCase());
+  console.log(
+    `  uniqueness check  backtracking ${format(ms.backtrackingCheck)}  bitmask ${format(ms.bitmaskCheck)}`
+      + `  speedup ${speedup(ms.backtrackingCheck, ms.bitmaskCheck)}`
+  );
+  console.log(
+    `  removal pass      backtracking ${format(ms.backtrackingRemoval)}  bitmask ${format(ms.bitmaskRemoval)}`
+      + `  speedup ${speedup(ms.backtrackingRemoval, ms.bitmaskRemoval)}`
+  );
+};
+
+const main = () => {
+  const seedCount = Number(process.argv[2] ?? 20);
+  if (!Number.isInteger(seedCount) || seedCount <= 0) {
+    console.error('Usage: npm run benchmark:solver [seedCount]');
+    process.exit(1);
+  }
+
+  console.log(`Benchmarking ${seedCount} seeds per difficulty\n`);
+  const totals: Timings = { backtrackingCheck: 0, bitmaskCheck: 0, backtrackingRemoval: 0, bitmaskRemoval: 0 };
+
+  for (const difficulty of DIFFICULTIES) {
+    const row: Timings = { backtrackingCheck: 0, bitmaskCheck: 0, backtrackingRemoval: 0, bitmaskRemoval: 0 };
+
+    for (let seed = 1; seed <= seedCount; seed++) {
+      const { puzzle, solution } = SudokuEngine.generatePuzzle(difficulty, seed);
+
+      // A single uniqueness check on the finished puzzle
+      const backtrackingCheck = time(() => countWithBacktracking(puzzle));
+      const bitmaskCheck = time(() => countWithBitmask(puzzle));
+      if (backtrackingCheck.result !== bitmaskCheck.result) {
+        throw new Error(`Solution counts differ for ${difficulty} seed ${seed}`);
+      }
+
+      // The removal pass that generation runs for every candidate puzzle
+      const order = shuffledPositions(seed);
+      const backtrackingRemoval = time(() => removeCells(solution, order, countWithBacktracking));
+      const bitmaskRemoval = time(() => removeCells(solution, order, countWithBitmask));
+      if (!sameGrid(backtrackingRemoval.result, bitmaskRemoval.result)) {
+        throw new Error(`Removal passes differ for ${difficulty} seed ${seed}`);
+      }
+
+      row.backtrackingCheck += backtrackingCheck.ms;
+      row.bitmaskCheck += bitmaskCheck.ms;
+      row.backtrackingRemoval += backtrackingRemoval.ms;
+      row.bitmaskRemoval += bitmaskRemoval.ms;
+    }
+
+    report(difficulty, row, seedCount);
+    totals.backtrackingCheck += row.backtrackingCheck;
+    totals.bitmaskCheck += row.bitmaskCheck;
+    totals.backtrackingRemoval += row.backtrackingRemoval;
+    totals.bitmaskRemoval += row.bitmaskRemoval;
+  }
+
+  report('total', totals, seedCount * DIFFICULTIES.length);
+};
+
+main();
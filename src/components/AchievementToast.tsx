@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import {
+  Animated,
+  Text,
+  StyleSheet,
+} from 'react-native';
+import { Achievement } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface AchievementToastProps {
+  achievements: Achievement[]; // Nothing is shown while empty
+  onHidden: () => void;
+}
+
+const FADE_MS = 250;
+const VISIBLE_MS = 3500;
+
+/**
+ * Slides in from the top of the screen to announce newly unlocked
+ * achievements, then fades away by itself
+ */
+export const AchievementToast: React.FC<AchievementToastProps> = ({ achievements, onHidden }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (achievements.length === 0) return;
+
+    const animation = Animated.sequence([
+      Animated.timing(opacity, { toValue: 1, duration: FADE_MS, useNativeDriver: true }),
+      Animated.delay(VISIBLE_MS),
+      Animated.timing(opacity, { toValue: 0, duration: FADE_MS, useNativeDriver: true }),
+    ]);
+    animation.start(({ finished }) => {
+      if (finished) onHidden();
+    });
+    return () => animation.stop();
+  }, [achievements]);
+
+  if (achievements.length === 0) return null;
+
+  const translateY = opacity.interpolate({ inputRange: [0, 1], outputRange: [-20, 0] });
+
+  return (
+    <Animated.View pointerEvents="none" style={[styles.toast, { opacity, transform: [{ translateY }] }]}>
+      <Text style={styles.heading}>
+        {achievements.length === 1 ? 'Achievement Unlocked' : `${achievements.length} Achievements Unlocked`}
+      </Text>
+      {achievements.map(({ id, title, description }) => (
+        <Text key={id} style={styles.achievement}>
+          {title} <Text style={styles.description}>· {description}</Text>
+        </Text>
+      ))}
+    </Animated.View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    right: 20,
+    padding: 15,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: colors.warning,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+  },
+  heading: {
+    color: colors.warning,
+    fontSize: 12,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  achievement: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontWeight: 'normal',
+  },
+});
@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { LogicalSolver } from '../game/LogicalSolver';
+import { GridShape } from '../game/GridShape';
+import { SamuraiLayout } from '../game/SamuraiLayout';
+import { Candidate, GridLayout, Hint, HintOverlay, House, Position, RegionMap, SymbolSet } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface HintPanelProps {
+  hint: Hint;
+  onNext: () => void;
+  onApply: () => void;
+  onClose: () => void;
+  symbols?: SymbolSet;
+}
+
+const formatCell = ({ row, col }: Position): string => `R${row + 1}C${col + 1}`;
+
+const formatHouse = (house: House): string => house.grid === undefined
+  ? `${house.type} ${house.index + 1}`
+  : `${house.type} ${house.index + 1} of the ${SamuraiLayout.getGridName(house.grid)} grid`;
+
+const formatEliminations = (eliminations: Candidate[], symbols: SymbolSet): string => {
+  const byValue = new Map<number, string[]>();
+  for (const { position, value } of eliminations) {
+    byValue.set(value, [...(byValue.get(value) ?? []), formatCell(position)]);
+  }
+  return [...byValue.entries()]
+    .map(([value, cells]) => `${GridShape.getSymbol(value, symbols)} from ${cells.join(', ')}`)
+    .join('; ');
+};
+
+/**
+ * Gets the text for the stage the hint has reached
+ */
+const getHintMessage = (hint: Hint, symbols: SymbolSet): string => {
+  switch (hint.kind) {
+    case 'mistake':
+      if (hint.stage === 1) return 'One of your entries does not match the solution.';
+      if (hint.stage === 2) return 'Take another look at the highlighted cell.';
+      return `${formatCell(hint.position)} is wrong. Erase it and continue.`;
+
+    case 'reveal':
+      if (hint.stage === 1) return 'No basic technique applies here; this position needs a guess.';
+      if (hint.stage === 2) return 'Try the highlighted cell.';
+      return `${formatCell(hint.placement.position)} is ${GridShape.getSymbol(hint.placement.value, symbols)}.`;
+
+    case 'technique': {
+      const { technique, houses, placements, eliminations } = hint.step;
+      const name = LogicalSolver.getTechniqueName(technique);
+      if (hint.stage === 1) {
+        return houses.length > 0
+          ? `Look for a ${name} in ${houses.map(formatHouse).join(' and ')}.`
+          : `Look for a ${name}.`;
+      }
+      if (hint.stage === 2) return `The ${name} uses the highlighted cells.`;
+
+      if (placements.length > 0) {
+        return placements
+          .map(({ position, value }) => `${formatCell(position)} must be ${GridShape.getSymbol(value, symbols)}.`)
+          .join(' ');
+      }
+      return `Remove ${formatEliminations(eliminations, symbols)}.`;
+    }
+  }
+};
+
+/**
+ * Gets what the board should draw for the stage the hint has reached
+ */
+export const getHintOverlay = (hint: Hint, size: number, regions?: RegionMap, layout?: GridLayout): HintOverlay => {
+  const overlay: HintOverlay = { houseCells: [], focusCells: [], placements: [], eliminations: [] };
+
+  switch (hint.kind) {
+    case 'mistake':
+      if (hint.stage >= 2) overlay.focusCells = [hint.position];
+      break;
+
+    case 'reveal':
+      if (hint.stage >= 2) overlay.focusCells = [hint.placement.position];
+      if (hint.stage === 3) overlay.placements = [hint.placement];
+      break;
+
+    case 'technique':
+      overlay.houseCells = hint.step.houses.flatMap(house => layout
+        ? SamuraiLayout.getHouseCells(house, layout)
+        : GridShape.getHouseCells(house, size, regions));
+      if (hint.stage >= 2) overlay.focusCells = hint.step.cells;
+      if (hint.stage === 3) {
+        overlay.placements = hint.step.placements;
+        overlay.eliminations = hint.step.eliminations;
+      }
+      break;
+  }
+
+  return overlay;
+};
+
+export const HintPanel: React.FC<HintPanelProps> = ({
+  hint,
+  onNext,
+  onApply,
+  onClose,
+  symbols = 'digits',
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const isFinalStage = hint.stage === 3;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.stage}>Hint {hint.stage}/3</Text>
+      <Text style={styles.message}>{getHintMessage(hint, symbols)}</Text>
+      <View style={styles.buttons}>
+        <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onClose}>
+          <Text style={styles.buttonText}>Close</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={isFinalStage ? onApply : onNext}>
+          <Text style={styles.buttonText}>{isFinalStage ? 'Apply' : 'Show More'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginTop: 15,
+    padding: 15,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  stage: {
+    color: colors.warning,
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginBottom: 5,
+  },
+  message: {
+    color: colors.text,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
+  button: {
+    backgroundColor: colors.accent,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginLeft: 10,
+  },
+  closeButton: {
+    backgroundColor: colors.disabledText,
+  },
+  buttonText: {
+    color: colors.onAccent,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
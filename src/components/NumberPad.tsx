@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
@@ -6,29 +6,56 @@ import {
   StyleSheet,
   Dimensions,
 } from 'react-native';
-import { CellValue } from '../types/game';
+import { CellValue, SymbolSet } from '../types/game';
+import { GridShape } from '../game/GridShape';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
 
 interface NumberPadProps {
   onNumberPress: (number: CellValue) => void;
   onErasePress: () => void;
   selectedNumber?: CellValue;
   disabled?: boolean;
+  notesMode?: boolean;
+  onToggleNotes?: () => void;
+  size?: number;
+  symbols?: SymbolSet;
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 const PAD_PADDING = 20;
 const PAD_WIDTH = screenWidth - PAD_PADDING * 2;
-const BUTTON_SIZE = (PAD_WIDTH - 30) / 5; // 5 buttons per row with spacing
+const BUTTON_SPACING = 7.5;
+const MIN_BUTTONS_PER_ROW = 5;
+const MAX_BUTTONS_PER_ROW = 7;
 
 export const NumberPad: React.FC<NumberPadProps> = ({
   onNumberPress,
   onErasePress,
   selectedNumber,
   disabled = false,
+  notesMode = false,
+  onToggleNotes,
+  size = GridShape.DEFAULT_SIZE,
+  symbols = 'digits',
 }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  // One button per value plus Erase, split into as few even rows as fit
+  const buttons: CellValue[] = [...Array.from({ length: size }, (_, i) => i + 1), null];
+  const rowCount = Math.ceil(buttons.length / MAX_BUTTONS_PER_ROW);
+  const perRow = Math.max(MIN_BUTTONS_PER_ROW, Math.ceil(buttons.length / rowCount));
+  const buttonSize = (PAD_WIDTH - BUTTON_SPACING * (perRow - 1)) / perRow;
+  const sizing = {
+    button: { width: buttonSize, height: buttonSize },
+    buttonText: { fontSize: buttonSize * 0.4 },
+    eraseButtonText: { fontSize: buttonSize * 0.3 },
+  };
+
   const renderNumberButton = (number: CellValue) => {
     const isSelected = selectedNumber === number;
-    const displayText = number ? number.toString() : 'E';
+    const displayText = number ? GridShape.getSymbol(number, symbols) : 'E';
     const isEraseButton = number === null;
 
     return (
@@ -36,6 +63,7 @@ export const NumberPad: React.FC<NumberPadProps> = ({
         key={number ?? 'erase'}
         style={[
           styles.button,
+          sizing.button,
           isSelected && styles.selectedButton,
           isEraseButton && styles.eraseButton,
           disabled && styles.disabledButton,
@@ -53,8 +81,9 @@ export const NumberPad: React.FC<NumberPadProps> = ({
         <Text
           style={[
             styles.buttonText,
+            sizing.buttonText,
             isSelected && styles.selectedButtonText,
-            isEraseButton && styles.eraseButtonText,
+            isEraseButton && [styles.eraseButtonText, sizing.eraseButtonText],
             disabled && styles.disabledButtonText,
           ]}
         >
@@ -66,25 +95,45 @@ export const NumberPad: React.FC<NumberPadProps> = ({
 
   return (
     <View style={styles.container}>
-      {/* First row: 1, 2, 3, 4, 5 */}
-      <View style={styles.row}>
-        {[1, 2, 3, 4, 5].map(number => renderNumberButton(number as CellValue))}
-      </View>
-      
-      {/* Second row: 6, 7, 8, 9, Erase */}
-      <View style={styles.row}>
-        {[6, 7, 8, 9].map(number => renderNumberButton(number as CellValue))}
-        {renderNumberButton(null)} {/* Erase button */}
-      </View>
+      {/* Values in order, with Erase last: 1-5 and 6-9, Erase on 9x9 */}
+      {Array.from({ length: rowCount }, (_, row) => (
+        <View key={row} style={styles.row}>
+          {buttons.slice(row * perRow, (row + 1) * perRow).map(renderNumberButton)}
+        </View>
+      ))}
+
+      {/* Notes toggle: digits go into pencil marks instead of the cell */}
+      {onToggleNotes && (
+        <TouchableOpacity
+          style={[
+            styles.notesToggle,
+            notesMode && styles.notesToggleActive,
+            disabled && styles.disabledButton,
+          ]}
+          onPress={onToggleNotes}
+          disabled={disabled}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[
+              styles.notesToggleText,
+              notesMode && styles.selectedButtonText,
+              disabled && styles.disabledButtonText,
+            ]}
+          >
+            ✎ Notes {notesMode ? 'ON' : 'OFF'}
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     alignItems: 'center',
     paddingVertical: 20,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.controlsBackground,
   },
   row: {
     flexDirection: 'row',
@@ -93,14 +142,12 @@ const styles = StyleSheet.create({
     width: PAD_WIDTH,
   },
   button: {
-    width: BUTTON_SIZE,
-    height: BUTTON_SIZE,
-    backgroundColor: '#ECF0F1',
+    backgroundColor: colors.padButton,
     borderRadius: 8,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 2,
-    borderColor: '#BDC3C7',
+    borderColor: colors.padBorder,
     elevation: 2,
     shadowColor: '#000',
     shadowOffset: {
@@ -111,32 +158,48 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
   },
   selectedButton: {
-    backgroundColor: '#3498DB',
-    borderColor: '#2980B9',
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
   },
   eraseButton: {
-    backgroundColor: '#E74C3C',
-    borderColor: '#C0392B',
+    backgroundColor: colors.danger,
+    borderColor: colors.danger,
   },
   disabledButton: {
-    backgroundColor: '#F8F9FA',
-    borderColor: '#DEE2E6',
+    backgroundColor: colors.padDisabled,
+    borderColor: colors.padDisabledBorder,
     elevation: 0,
     shadowOpacity: 0,
   },
   buttonText: {
-    fontSize: BUTTON_SIZE * 0.4,
     fontWeight: 'bold',
-    color: '#2C3E50',
+    color: colors.padText,
   },
   selectedButtonText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
   },
   eraseButtonText: {
-    color: '#FFFFFF',
-    fontSize: BUTTON_SIZE * 0.3,
+    color: colors.onAccent,
+  },
+  notesToggle: {
+    width: PAD_WIDTH,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.padButton,
+    borderWidth: 2,
+    borderColor: colors.padBorder,
+  },
+  notesToggleActive: {
+    backgroundColor: colors.special,
+    borderColor: colors.special,
+  },
+  notesToggleText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.padText,
   },
   disabledButtonText: {
-    color: '#ADB5BD',
+    color: colors.padDisabledText,
   },
 });
\ No newline at end of file
@@ -0,0 +1,106 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  PanResponder,
+  StyleSheet,
+  LayoutChangeEvent,
+} from 'react-native';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface ReplayScrubberProps {
+  position: number; // 0 to length
+  length: number;
+  onSeek: (position: number) => void;
+  marks?: { position: number; color: string }[]; // Ticks drawn along the track
+}
+
+const THUMB_SIZE = 18;
+
+/**
+ * A seek bar: tap or drag anywhere along it to jump to that point
+ */
+export const ReplayScrubber: React.FC<ReplayScrubberProps> = ({
+  position,
+  length,
+  onSeek,
+  marks = [],
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [trackWidth, setTrackWidth] = useState(0);
+  // Kept in refs so the responder, created once, sees the latest values
+  const layout = useRef({ width: 0, length, onSeek });
+  layout.current = { width: trackWidth, length, onSeek };
+  const startX = useRef(0);
+
+  const seekTo = (x: number) => {
+    const { width, length: total, onSeek: seek } = layout.current;
+    if (width === 0) return;
+    const fraction = Math.min(1, Math.max(0, x / width));
+    seek(Math.round(fraction * total));
+  };
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    // Keep the drag from turning into a scroll of the screen around it
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: event => {
+      startX.current = event.nativeEvent.locationX;
+      seekTo(startX.current);
+    },
+    onPanResponderMove: (_, gesture) => seekTo(startX.current + gesture.dx),
+  })).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width);
+
+  const toX = (at: number) => (length === 0 ? 0 : (at / length) * trackWidth);
+
+  return (
+    <View style={styles.container} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <View style={styles.track} pointerEvents="none">
+        <View style={[styles.progress, { width: toX(position) }]} />
+      </View>
+      {marks.map(mark => (
+        <View
+          key={mark.position}
+          pointerEvents="none"
+          style={[styles.mark, { left: toX(mark.position) - 1, backgroundColor: mark.color }]}
+        />
+      ))}
+      <View pointerEvents="none" style={[styles.thumb, { left: toX(position) - THUMB_SIZE / 2 }]} />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    height: 32,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.surface,
+    overflow: 'hidden',
+  },
+  progress: {
+    height: 4,
+    backgroundColor: colors.accent,
+  },
+  mark: {
+    position: 'absolute',
+    top: 8,
+    width: 2,
+    height: 16,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: colors.text,
+  },
+});
@@ -1,39 +1,111 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  Dimensions,
   Alert,
+  useWindowDimensions,
 } from 'react-native';
-import { CellValue, SudokuGrid, Position, ValidationResult } from '../types/game';
+import {
+  CellValue,
+  Digit,
+  SudokuGrid,
+  NoteGrid,
+  Position,
+  ValidationResult,
+  HintOverlay,
+  SymbolSet,
+  Cage,
+  RegionMap,
+  GridLayout,
+  Constraint,
+  ErrorCheckMode,
+} from '../types/game';
+import { GridShape } from '../game/GridShape';
+import { KillerCages } from '../game/KillerCages';
+import { SamuraiLayout } from '../game/SamuraiLayout';
+import { Constraints } from '../game/Constraints';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
 
 interface SudokuBoardProps {
   grid: SudokuGrid;
   originalGrid: SudokuGrid;
+  notes?: NoteGrid;
   conflicts: Position[];
   onCellPress: (row: number, col: number) => void;
   selectedCell: Position | null;
   isGameCompleted?: boolean;
-  showErrors?: boolean;
+  errorCheckMode?: ErrorCheckMode; // Which of conflicts and wrong cells are shown
+  wrongCells?: Position[]; // Entries that differ from the solution; with checking off, only given for a full board
+  hintOverlay?: HintOverlay | null;
+  symbols?: SymbolSet;
+  cages?: Cage[] | null;
+  brokenCages?: number[];
+  regions?: RegionMap | null; // Jigsaw regions; the standard boxes when absent
+  constraints?: Constraint[] | null; // Rules whose markings are drawn, such as X-Sudoku diagonals
+  layout?: GridLayout | null; // Samurai boards; cells outside every grid are drawn as gaps
 }
 
-const { width: screenWidth } = Dimensions.get('window');
 const BOARD_PADDING = 20;
-const BOARD_WIDTH = screenWidth - BOARD_PADDING * 2;
-const CELL_SIZE = BOARD_WIDTH / 9;
+const CAGE_INSET = 3;
+const MARKING_LINE_WIDTH = 2;
 
 export const SudokuBoard: React.FC<SudokuBoardProps> = ({
   grid,
   originalGrid,
+  notes,
   conflicts,
   onCellPress,
   selectedCell,
   isGameCompleted = false,
-  showErrors = true,
+  errorCheckMode = 'conflicts',
+  wrongCells = [],
+  hintOverlay = null,
+  symbols = 'digits',
+  cages = null,
+  brokenCages = [],
+  regions = null,
+  constraints = null,
+  layout = null,
 }) => {
   const [highlightedCells, setHighlightedCells] = useState<Position[]>([]);
+  const { width: windowWidth } = useWindowDimensions();
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const showConflicts = errorCheckMode !== 'off';
+  const showWrongCells = errorCheckMode !== 'conflicts';
+
+  // Everything is sized from the grid and the window, so one board draws
+  // every grid size; a Samurai board's boxes and values come from its grids
+  const size = grid.length;
+  const digits = layout?.gridSize ?? size;
+  const box = GridShape.getBoxShape(digits);
+  const regionMap = regions ?? undefined;
+  const regionOf = (row: number, col: number) => layout
+    ? SamuraiLayout.getBoxIndex(row, col, layout)
+    : GridShape.getRegionIndex(row, col, size, regionMap);
+  const boardWidth = windowWidth - BOARD_PADDING * 2;
+  const cellSize = boardWidth / size;
+  const sizing = {
+    cell: { width: cellSize, height: cellSize },
+    cellText: { fontSize: cellSize * 0.6 },
+    errorMark: { fontSize: cellSize * 0.22 },
+    note: {
+      width: cellSize / box.cols,
+      height: cellSize / box.rows,
+      fontSize: cellSize * (digits > 9 ? 0.16 : 0.22),
+      lineHeight: cellSize / box.rows,
+    },
+  };
+
+  const markings = constraints?.flatMap(constraint => constraint.markings) ?? [];
+  const shadedCells = markings.flatMap(marking => marking.kind === 'shade' ? marking.cells : []);
+
+  // Which Killer cage each cell belongs to, -1 outside any cage
+  const cageOf = grid.map(row => row.map(() => -1));
+  cages?.forEach((cage, index) => cage.cells.forEach(({ row, col }) => { cageOf[row][col] = index; }));
 
   useEffect(() => {
     if (selectedCell) {
@@ -42,26 +114,30 @@ export const SudokuBoard: React.FC<SudokuBoardProps> = ({
     } else {
       setHighlightedCells([]);
     }
-  }, [selectedCell]);
+  }, [selectedCell, size, regions, constraints]);
 
   const getHighlightedCells = (selectedRow: number, selectedCol: number): Position[] => {
+    // Rows, columns and boxes through the cell, in every grid it belongs to
+    if (constraints) {
+      return Constraints.getHouses(constraints)
+        .filter(({ house, cells }) =>
+          ['row', 'column', 'box'].includes(house.type)
+          && cells.some(pos => pos.row === selectedRow && pos.col === selectedCol)
+        )
+        .flatMap(({ cells }) => cells);
+    }
+
     const highlights: Position[] = [];
-    
+
     // Highlight row and column
-    for (let i = 0; i < 9; i++) {
+    for (let i = 0; i < size; i++) {
       highlights.push({ row: selectedRow, col: i });
       highlights.push({ row: i, col: selectedCol });
     }
     
-    // Highlight 3x3 box
-    const boxStartRow = Math.floor(selectedRow / 3) * 3;
-    const boxStartCol = Math.floor(selectedCol / 3) * 3;
-    
-    for (let r = boxStartRow; r < boxStartRow + 3; r++) {
-      for (let c = boxStartCol; c < boxStartCol + 3; c++) {
-        highlights.push({ row: r, col: c });
-      }
-    }
+    // Highlight box or Jigsaw region
+    const region = regionOf(selectedRow, selectedCol);
+    highlights.push(...GridShape.getHouseCells({ type: 'box', index: region }, size, regionMap));
     
     return highlights;
   };
@@ -71,15 +147,21 @@ export const SudokuBoard: React.FC<SudokuBoardProps> = ({
     const isHighlighted = highlightedCells.some(pos => pos.row === row && pos.col === col);
     const isOriginal = originalGrid[row][col] !== null;
     const hasConflict = conflicts.some(pos => pos.row === row && pos.col === col);
-    const isRightBorder = col === 2 || col === 5;
-    const isBottomBorder = row === 2 || row === 5;
+    // Thick lines wherever the region changes
+    const isRightBorder = col < size - 1 && regionOf(row, col) !== regionOf(row, col + 1);
+    const isBottomBorder = row < size - 1 && regionOf(row, col) !== regionOf(row + 1, col);
+    const isHintHouse = hintOverlay?.houseCells.some(pos => pos.row === row && pos.col === col);
+    const isHintFocus = hintOverlay?.focusCells.some(pos => pos.row === row && pos.col === col);
 
     return [
       styles.cell,
+      sizing.cell,
       isSelected && styles.selectedCell,
       isHighlighted && !isSelected && styles.highlightedCell,
       isOriginal && styles.originalCell,
-      hasConflict && showErrors && styles.conflictCell,
+      isHintHouse && styles.hintHouseCell,
+      isHintFocus && styles.hintFocusCell,
+      hasConflict && showConflicts && styles.conflictCell,
       isRightBorder && styles.rightBorder,
       isBottomBorder && styles.bottomBorder,
       isGameCompleted && styles.completedCell,
@@ -89,18 +171,147 @@ export const SudokuBoard: React.FC<SudokuBoardProps> = ({
   const getCellTextStyle = (row: number, col: number) => {
     const isOriginal = originalGrid[row][col] !== null;
     const hasConflict = conflicts.some(pos => pos.row === row && pos.col === col);
+    const isWrong = wrongCells.some(pos => pos.row === row && pos.col === col);
 
     return [
       styles.cellText,
+      sizing.cellText,
       isOriginal && styles.originalCellText,
-      hasConflict && showErrors && styles.conflictCellText,
+      hasConflict && showConflicts && styles.conflictCellText,
+      isWrong && showWrongCells && styles.wrongCellText,
       isGameCompleted && styles.completedCellText,
     ];
   };
 
+  const renderNotes = (row: number, col: number, eliminated: Digit[]) => {
+    const cellNotes = notes?.[row][col] ?? [];
+
+    // Pencil marks sit in a layout shaped like a box, so on 9x9 they match the
+    // digit positions on a keypad; digits a hint eliminates are shown struck through
+    return (
+      <View style={[styles.notesGrid, sizing.cell]}>
+        {Array.from({ length: digits }, (_, i) => (i + 1) as Digit).map(digit => {
+          const isEliminated = eliminated.includes(digit);
+          return (
+            <Text key={digit} style={[styles.noteText, sizing.note, isEliminated && styles.eliminatedNoteText]}>
+              {cellNotes.includes(digit) || isEliminated ? GridShape.getSymbol(digit, symbols) : ''}
+            </Text>
+          );
+        })}
+      </View>
+    );
+  };
+
+  /**
+   * Draws the dashed cage outline inside a cell: an edge on each side that
+   * borders another cage, running on into neighbours of the same cage
+   */
+  const renderCageOutline = (row: number, col: number) => {
+    const cage = cageOf[row][col];
+    if (cage === -1) return null;
+
+    const sameCage = (r: number, c: number) => cageOf[r]?.[c] === cage;
+    const isBroken = brokenCages.includes(cage) && showConflicts;
+    const edgeStyle = [styles.cageEdge, isBroken && styles.brokenCageEdge];
+    const label = KillerCages.getLabelCell(cages![cage]);
+    const isLabelCell = label.row === row && label.col === col;
+
+    const along = (before: boolean, after: boolean) => ({
+      start: before ? 0 : CAGE_INSET,
+      end: after ? 0 : CAGE_INSET,
+    });
+    const horizontal = along(sameCage(row, col - 1), sameCage(row, col + 1));
+    const vertical = along(sameCage(row - 1, col), sameCage(row + 1, col));
+
+    return (
+      <View pointerEvents="none" style={StyleSheet.absoluteFill}>
+        {!sameCage(row - 1, col) && (
+          <View style={[edgeStyle, { top: CAGE_INSET, left: horizontal.start, right: horizontal.end, height: 0 }]} />
+        )}
+        {!sameCage(row + 1, col) && (
+          <View style={[edgeStyle, { bottom: CAGE_INSET, left: horizontal.start, right: horizontal.end, height: 0 }]} />
+        )}
+        {!sameCage(row, col - 1) && (
+          <View style={[edgeStyle, { left: CAGE_INSET, top: vertical.start, bottom: vertical.end, width: 0 }]} />
+        )}
+        {!sameCage(row, col + 1) && (
+          <View style={[edgeStyle, { right: CAGE_INSET, top: vertical.start, bottom: vertical.end, width: 0 }]} />
+        )}
+        {isLabelCell && (
+          <Text style={[styles.cageSum, { fontSize: cellSize * 0.2 }, isBroken && styles.brokenCageSum]}>
+            {cages![cage].sum}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Draws the markings that run across cells, such as the X-Sudoku
+   * diagonals, as thin bars rotated to join the centres of their end cells
+   */
+  const renderMarkingLines = () => (
+    <View pointerEvents="none" style={StyleSheet.absoluteFill}>
+      {markings.map((marking, index) => {
+        if (marking.kind !== 'line') return null;
+
+        const x1 = (marking.from.col + 0.5) * cellSize;
+        const y1 = (marking.from.row + 0.5) * cellSize;
+        const x2 = (marking.to.col + 0.5) * cellSize;
+        const y2 = (marking.to.row + 0.5) * cellSize;
+        const length = Math.hypot(x2 - x1, y2 - y1);
+
+        return (
+          <View
+            key={index}
+            style={[
+              styles.markingLine,
+              {
+                width: length,
+                left: (x1 + x2 - length) / 2,
+                top: (y1 + y2 - MARKING_LINE_WIDTH) / 2,
+                transform: [{ rotate: `${Math.atan2(y2 - y1, x2 - x1)}rad` }],
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+
   const renderCell = (row: number, col: number) => {
+    if (layout && SamuraiLayout.isHole(row, col, layout)) {
+      return <View key={`${row}-${col}`} style={sizing.cell} />;
+    }
+
     const value = grid[row][col];
-    const displayValue = value ? value.toString() : '';
+    const hintPlacement = hintOverlay?.placements.find(
+      ({ position }) => position.row === row && position.col === col
+    );
+    const eliminated = (hintOverlay?.eliminations ?? [])
+      .filter(({ position }) => position.row === row && position.col === col)
+      .map(({ value: digit }) => digit);
+    const hasNotes = value === null && ((notes?.[row][col].length ?? 0) > 0 || eliminated.length > 0);
+    const isShaded = shadedCells.some(pos => pos.row === row && pos.col === col);
+    const hasConflict = showConflicts && conflicts.some(pos => pos.row === row && pos.col === col);
+    const isWrong = showWrongCells && wrongCells.some(pos => pos.row === row && pos.col === col);
+
+    let content;
+    if (value === null && hintPlacement) {
+      content = (
+        <Text style={[styles.cellText, sizing.cellText, styles.hintPlacementText]}>
+          {GridShape.getSymbol(hintPlacement.value, symbols)}
+        </Text>
+      );
+    } else if (hasNotes) {
+      content = renderNotes(row, col, eliminated);
+    } else {
+      content = (
+        <Text style={getCellTextStyle(row, col)}>
+          {value ? GridShape.getSymbol(value, symbols) : ''}
+        </Text>
+      );
+    }
 
     return (
       <TouchableOpacity
@@ -110,9 +321,17 @@ export const SudokuBoard: React.FC<SudokuBoardProps> = ({
         disabled={isGameCompleted}
         activeOpacity={0.7}
       >
-        <Text style={getCellTextStyle(row, col)}>
-          {displayValue}
-        </Text>
+        {isShaded && <View pointerEvents="none" style={[StyleSheet.absoluteFill, styles.shadedCell]} />}
+        {content}
+        {/* Conflicts and wrong entries are marked with symbols too, so they
+            don't rely on color alone */}
+        {hasConflict && (
+          <Text pointerEvents="none" style={[styles.conflictMark, sizing.errorMark]}>!</Text>
+        )}
+        {isWrong && (
+          <Text pointerEvents="none" style={[styles.wrongMark, sizing.errorMark]}>✕</Text>
+        )}
+        {renderCageOutline(row, col)}
       </TouchableOpacity>
     );
   };
@@ -120,80 +339,146 @@ export const SudokuBoard: React.FC<SudokuBoardProps> = ({
   const renderRow = (row: number) => {
     return (
       <View key={row} style={styles.row}>
-        {Array.from({ length: 9 }, (_, col) => renderCell(row, col))}
+        {Array.from({ length: size }, (_, col) => renderCell(row, col))}
       </View>
     );
   };
 
   return (
     <View style={styles.container}>
-      <View style={styles.board}>
-        {Array.from({ length: 9 }, (_, row) => renderRow(row))}
+      <View style={[styles.board, { width: boardWidth, height: boardWidth }]}>
+        {Array.from({ length: size }, (_, row) => renderRow(row))}
+        {renderMarkingLines()}
       </View>
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     alignItems: 'center',
     justifyContent: 'center',
   },
   board: {
-    width: BOARD_WIDTH,
-    height: BOARD_WIDTH,
-    backgroundColor: '#2C3E50',
+    backgroundColor: colors.boxLine,
     borderWidth: 2,
-    borderColor: '#34495E',
+    borderColor: colors.boardBorder,
   },
   row: {
     flexDirection: 'row',
   },
   cell: {
-    width: CELL_SIZE,
-    height: CELL_SIZE,
-    backgroundColor: '#ECF0F1',
+    backgroundColor: colors.cell,
     borderWidth: 0.5,
-    borderColor: '#BDC3C7',
+    borderColor: colors.cellLine,
     alignItems: 'center',
     justifyContent: 'center',
   },
   selectedCell: {
-    backgroundColor: '#3498DB',
+    backgroundColor: colors.selection,
   },
   highlightedCell: {
-    backgroundColor: '#AED6F1',
+    backgroundColor: colors.peerHighlight,
   },
   originalCell: {
-    backgroundColor: '#D5DBDB',
+    backgroundColor: colors.givenCell,
+  },
+  hintHouseCell: {
+    backgroundColor: colors.hintHouse,
+  },
+  hintFocusCell: {
+    backgroundColor: colors.hintFocus,
   },
   conflictCell: {
-    backgroundColor: '#F1948A',
+    backgroundColor: colors.conflict,
   },
   completedCell: {
-    backgroundColor: '#A9DFBF',
+    backgroundColor: colors.completed,
   },
   rightBorder: {
     borderRightWidth: 2,
-    borderRightColor: '#2C3E50',
+    borderRightColor: colors.boxLine,
   },
   bottomBorder: {
     borderBottomWidth: 2,
-    borderBottomColor: '#2C3E50',
+    borderBottomColor: colors.boxLine,
   },
   cellText: {
-    fontSize: CELL_SIZE * 0.6,
     fontWeight: 'bold',
-    color: '#2C3E50',
+    color: colors.userEntry,
+  },
+  notesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  noteText: {
+    textAlign: 'center',
+    color: colors.note,
+  },
+  eliminatedNoteText: {
+    color: colors.eliminatedNote,
+    textDecorationLine: 'line-through',
+  },
+  cageEdge: {
+    position: 'absolute',
+    borderWidth: 0.5,
+    borderStyle: 'dashed',
+    borderRadius: 1,
+    borderColor: colors.cage,
+  },
+  // Solid and heavier as well as recolored, like the conflict mark
+  brokenCageEdge: {
+    borderWidth: 1,
+    borderStyle: 'solid',
+    borderColor: colors.brokenCage,
+  },
+  cageSum: {
+    position: 'absolute',
+    top: 1,
+    left: 2,
+    paddingHorizontal: 1,
+    fontWeight: '600',
+    color: colors.cageSum,
+  },
+  brokenCageSum: {
+    color: colors.brokenCage,
+  },
+  shadedCell: {
+    backgroundColor: colors.ruleShade,
+  },
+  markingLine: {
+    position: 'absolute',
+    height: MARKING_LINE_WIDTH,
+    backgroundColor: colors.ruleLine,
+  },
+  hintPlacementText: {
+    color: colors.hintPlacement,
   },
   originalCellText: {
-    color: '#1B4F72',
+    color: colors.given,
     fontWeight: '800',
   },
   conflictCellText: {
-    color: '#A93226',
+    color: colors.conflictText,
+  },
+  conflictMark: {
+    position: 'absolute',
+    top: 0,
+    right: 2,
+    fontWeight: 'bold',
+    color: colors.conflictText,
+  },
+  wrongCellText: {
+    color: colors.wrongEntry,
+  },
+  wrongMark: {
+    position: 'absolute',
+    bottom: 0,
+    right: 2,
+    fontWeight: 'bold',
+    color: colors.wrongEntry,
   },
   completedCellText: {
-    color: '#1E8449',
+    color: colors.completedText,
   },
 });
\ No newline at end of file
@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import {
+  View,
+  Animated,
+  PanResponder,
+  StyleSheet,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  NativeTouchEvent,
+  PanResponderGestureState,
+} from 'react-native';
+
+interface ZoomableViewProps {
+  children: React.ReactNode;
+  maxScale?: number;
+}
+
+// Movement below this many points is left to the children as a tap
+const TAP_SLOP = 8;
+
+const getDistance = ([a, b]: NativeTouchEvent[]): number =>
+  Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+
+/**
+ * Lets the player pinch to zoom into its content and drag to pan around it
+ * once zoomed. Taps still reach the content, so cells stay selectable at
+ * any zoom level. Panning stops at the content's edges.
+ */
+export const ZoomableView: React.FC<ZoomableViewProps> = ({ children, maxScale = 3 }) => {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+
+  // The current view, and the view, drag offset and finger spread (0 when
+  // panning with one finger) at the start of the current pinch or pan
+  const view = useRef({ scale: 1, x: 0, y: 0 });
+  const gestureStart = useRef({ scale: 1, x: 0, y: 0, dx: 0, dy: 0, distance: 0 });
+  const contentSize = useRef({ width: 0, height: 0 });
+
+  const clampOffset = (offset: number, zoom: number, length: number) => {
+    const limit = ((zoom - 1) * length) / 2;
+    return Math.min(limit, Math.max(-limit, offset));
+  };
+
+  const applyView = (next: { scale: number; x: number; y: number }) => {
+    const { width, height } = contentSize.current;
+    const clamped = {
+      scale: next.scale,
+      x: clampOffset(next.x, next.scale, width),
+      y: clampOffset(next.y, next.scale, height),
+    };
+    scale.setValue(clamped.scale);
+    translateX.setValue(clamped.x);
+    translateY.setValue(clamped.y);
+    return clamped;
+  };
+
+  const beginGesture = (event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+    const { touches } = event.nativeEvent;
+    gestureStart.current = {
+      ...view.current,
+      dx: gesture.dx,
+      dy: gesture.dy,
+      distance: touches.length >= 2 ? getDistance(touches) : 0,
+    };
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Taps go to the content; only pinches, and drags while zoomed, are taken
+      onMoveShouldSetPanResponder: (event, gesture) =>
+        event.nativeEvent.touches.length >= 2 ||
+        (view.current.scale > 1 && (Math.abs(gesture.dx) > TAP_SLOP || Math.abs(gesture.dy) > TAP_SLOP)),
+      onPanResponderGrant: beginGesture,
+      // Keep a surrounding scroll view from taking over mid-gesture
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderMove: (event, gesture) => {
+        const { touches } = event.nativeEvent;
+
+        // Adding or lifting a second finger switches between pinch and pan
+        // from wherever the view is now
+        const isPinch = touches.length >= 2;
+        if (isPinch !== gestureStart.current.distance > 0) {
+          beginGesture(event, gesture);
+        }
+
+        const start = gestureStart.current;
+        if (isPinch) {
+          const zoom = Math.min(maxScale, Math.max(1, (start.scale * getDistance(touches)) / start.distance));
+          view.current = applyView({ scale: zoom, x: start.x, y: start.y });
+        } else {
+          view.current = applyView({
+            scale: start.scale,
+            x: start.x + gesture.dx - start.dx,
+            y: start.y + gesture.dy - start.dy,
+          });
+        }
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    contentSize.current = { width, height };
+  };
+
+  return (
+    <View style={styles.container} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <Animated.View style={{ transform: [{ translateX }, { translateY }, { scale }] }}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,173 @@
+import {
+  Achievement,
+  AchievementProgress,
+  AchievementRule,
+  DailyStreak,
+  Difficulty,
+  GameData,
+  GameMode,
+  GameStatsByMode,
+  GridSize,
+  Variant,
+} from '../types/game';
+import { Storage } from '../utils/Storage';
+import { GameModes } from './GameModes';
+
+// What rules are checked against: the game just completed, if any, and the
+// stored totals after it was recorded
+type AchievementContext = {
+  game?: GameData;
+  stats: GameStatsByMode;
+  streak: DailyStreak;
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * The achievements and the rules that unlock them. Adding one only takes a
+ * new entry in the list.
+ */
+export class Achievements {
+  static readonly ALL: Achievement[] = [
+    { id: 'first-solve', title: 'First Steps', description: 'Solve a puzzle', rule: { type: 'solve' } },
+    {
+      id: 'no-hints',
+      title: 'On Your Own',
+      description: 'Solve a puzzle without hints',
+      rule: { type: 'solve', maxHints: 0 },
+    },
+    {
+      id: 'no-mistakes',
+      title: 'Flawless',
+      description: 'Solve a puzzle without mistakes',
+      rule: { type: 'solve', maxMistakes: 0 },
+    },
+    {
+      id: 'easy-under-3',
+      title: 'Quick Start',
+      description: 'Solve an easy classic 9×9 puzzle in under 3 minutes',
+      rule: { type: 'solve', difficulty: 'easy', ...GameModes.CLASSIC, maxTime: 180 },
+    },
+    {
+      id: 'hard-under-10',
+      title: 'Speed Demon',
+      description: 'Solve a hard classic 9×9 puzzle in under 10 minutes',
+      rule: { type: 'solve', difficulty: 'hard', ...GameModes.CLASSIC, maxTime: 600 },
+    },
+    {
+      id: 'hard-purist',
+      title: 'Purist',
+      description: 'Solve a hard classic 9×9 puzzle with no hints, no mistakes and no solution checking',
+      rule: { type: 'solve', difficulty: 'hard', ...GameModes.CLASSIC, maxHints: 0, maxMistakes: 0, unassisted: true },
+    },
+    {
+      id: 'killer-solve',
+      title: 'Cage Fighter',
+      description: 'Solve a Killer puzzle',
+      rule: { type: 'solve', variant: 'killer' },
+    },
+    {
+      id: 'samurai-solve',
+      title: 'Samurai',
+      description: 'Solve a Samurai puzzle',
+      rule: { type: 'solve', variant: 'samurai' },
+    },
+    {
+      id: 'games-10',
+      title: 'Regular',
+      description: 'Solve 10 puzzles',
+      rule: { type: 'gamesCompleted', count: 10 },
+    },
+    {
+      id: 'games-100',
+      title: 'Centurion',
+      description: 'Solve 100 puzzles',
+      rule: { type: 'gamesCompleted', count: 100 },
+    },
+    {
+      id: 'hard-25',
+      title: 'Hardened',
+      description: 'Solve 25 hard classic 9×9 puzzles',
+      rule: { type: 'gamesCompleted', count: 25, difficulty: 'hard', ...GameModes.CLASSIC },
+    },
+    {
+      id: 'streak-7',
+      title: 'Week Streak',
+      description: 'Complete the daily challenge 7 days in a row',
+      rule: { type: 'dailyStreak', days: 7 },
+    },
+    {
+      id: 'streak-30',
+      title: 'Month Streak',
+      description: 'Complete the daily challenge 30 days in a row',
+      rule: { type: 'dailyStreak', days: 30 },
+    },
+  ];
+
+  /**
+   * Unlocks every achievement now met and returns the newly unlocked ones.
+   * Pass the game just completed to check the rules for single games.
+   */
+  static async check(game?: GameData): Promise<Achievement[]> {
+    const [stats, streak, unlocked] = await Promise.all([
+      Storage.getGameStats(),
+      Storage.getDailyStreak(),
+      Storage.getUnlockedAchievements(),
+    ]);
+    const context: AchievementContext = { game, stats, streak };
+
+    const newlyUnlocked = this.ALL.filter(achievement => {
+      if (unlocked[achievement.id] !== undefined) return false;
+      const { current, goal } = this.measure(achievement.rule, context);
+      return current >= goal;
+    });
+    if (newlyUnlocked.length > 0) {
+      await Storage.unlockAchievements(newlyUnlocked.map(({ id }) => id));
+    }
+    return newlyUnlocked;
+  }
+
+  /**
+   * Gets how far the stored totals are toward an achievement. Rules for
+   * single games stay at 0 until a game meets them.
+   */
+  static getProgress(achievement: Achievement, stats: GameStatsByMode, streak: DailyStreak): AchievementProgress {
+    const { current, goal } = this.measure(achievement.rule, { stats, streak });
+    return { current: Math.min(current, goal), goal };
+  }
+
+  private static measure(rule: AchievementRule, { game, stats, streak }: AchievementContext): AchievementProgress {
+    switch (rule.type) {
+      case 'solve':
+        return { current: game && this.matchesSolve(rule, game) ? 1 : 0, goal: 1 };
+
+      case 'gamesCompleted': {
+        const difficulties = rule.difficulty ? [rule.difficulty] : DIFFICULTIES;
+        const completed = GameModes.ALL
+          .filter(mode => this.matchesMode(rule, mode))
+          .flatMap(mode => difficulties.map(difficulty => Storage.getModeStats(stats, mode)[difficulty].gamesCompleted))
+          .reduce((total, count) => total + count, 0);
+        return { current: completed, goal: rule.count };
+      }
+
+      case 'dailyStreak':
+        return { current: streak.longest, goal: rule.days };
+    }
+  }
+
+  private static matchesSolve(rule: Extract<AchievementRule, { type: 'solve' }>, game: GameData): boolean {
+    return game.isCompleted
+      && (rule.difficulty === undefined || game.difficulty === rule.difficulty)
+      && this.matchesMode(rule, GameModes.of(game))
+      && (rule.maxTime === undefined || game.timeElapsed < rule.maxTime)
+      && (rule.maxHints === undefined || game.hintsUsed <= rule.maxHints)
+      && (rule.maxMistakes === undefined || game.mistakes <= rule.maxMistakes)
+      && (!rule.unassisted || game.errorCheckMode !== 'solution');
+  }
+
+  // Rules without a size or variant match every mode
+  private static matchesMode(rule: { size?: GridSize; variant?: Variant }, mode: GameMode): boolean {
+    return (rule.size === undefined || mode.size === rule.size)
+      && (rule.variant === undefined || mode.variant === rule.variant);
+  }
+}
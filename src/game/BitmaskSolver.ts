@@ -0,0 +1,456 @@
+import { Cage, Constraint, SudokuGrid } from '../types/game';
+import { Constraints } from './Constraints';
+import { SeededRandom } from '../utils/Random';
+
+type SolverOptions = {
+  cages?: Cage[];
+  constraints?: Constraint[]; // Classic rules by default
+  // Search nodes to spend before giving up; unlimited by default
+  maxNodes?: number;
+  // Tries digits in random order rather than lowest first, for varied solutions
+  random?: SeededRandom;
+};
+
+// Killer cages: digits used so far, the sum still to place and the empty
+// cells left in each cage, plus the digits each cage can still take
+type CageState = {
+  cageOf: Int16Array; // -1 for cells outside any cage
+  used: Uint16Array;
+  remaining: Int16Array;
+  open: Uint8Array;
+  allowed: Uint16Array;
+};
+
+type SolverState = {
+  cells: Uint8Array;
+  houses: Uint16Array; // Digits already placed in each house
+  cages: CageState | null;
+  // Search nodes left before giving up; Infinity for an exhaustive search
+  nodesLeft: number;
+  random: SeededRandom | null;
+  nodesSinceYield: number;
+};
+
+// The cells of every house, and the houses and linked cells of every cell
+// index, for one set of rules. Cell indexes pass 255 on a Samurai board.
+type Topology = {
+  size: number;
+  cellCount: number;
+  digits: number;
+  allDigits: number;
+  playable: Uint8Array; // 0 for the holes of a multi-grid board
+  houses: Uint16Array[];
+  housesOf: Uint16Array[];
+  different: Uint16Array[]; // Linked cells that may not share the digit
+  nonConsecutive: Uint16Array[]; // Linked cells whose digit may not be one away
+};
+
+/**
+ * Fast exact solver for any supported grid size and mix of rules. Each
+ * house keeps a bitmask of the digits it already holds. The search places
+ * hidden singles first and otherwise branches on the empty cell with the
+ * fewest candidates, which keeps large grids from stalling. Killer cages
+ * narrow candidates to digits that can still make the cage sum. A Samurai
+ * board is one grid with holes, so cells its grids share are solved once.
+ */
+export class BitmaskSolver {
+  private static readonly TOPOLOGIES = new WeakMap<Constraint[], Topology>();
+  // Fills the holes of a multi-grid board so the search never visits them
+  private static readonly HOLE = 0xff;
+  // Search nodes between pauses of the stepwise search
+  private static readonly NODES_PER_YIELD = 500;
+
+  private static readonly BIT_COUNT = Uint8Array.from({ length: 1 << 16 }, (_, mask) => {
+    let count = 0;
+    for (let m = mask; m !== 0; m &= m - 1) count++;
+    return count;
+  });
+
+  /**
+   * Solves a puzzle, returning null when it has no solution
+   */
+  static solve(grid: SudokuGrid, options: SolverOptions = {}): SudokuGrid | null {
+    return this.findSolutions(grid, 1, options)[0] ?? null;
+  }
+
+  /**
+   * Counts solutions, stopping once the limit is reached. With a node
+   * budget, returns null if the search runs out before it can tell.
+   */
+  static countSolutions(grid: SudokuGrid, limit: number, options: SolverOptions = {}): number | null {
+    const topology = this.getTopology(grid.length, options.constraints);
+    const state = this.createState(grid, topology, options);
+    if (!state) return 0;
+
+    const found: Uint8Array[] = [];
+    this.run(this.search(state, topology, limit, found));
+    return state.nodesLeft < 0 && found.length < limit ? null : found.length;
+  }
+
+  /**
+   * Finds up to maxSolutions solutions of a puzzle
+   */
+  static findSolutions(grid: SudokuGrid, maxSolutions: number, options: SolverOptions = {}): SudokuGrid[] {
+    return this.run(this.findSolutionsSteps(grid, maxSolutions, options));
+  }
+
+  /**
+   * Like solve, but pauses every few hundred search nodes so a caller can
+   * spread a long search over several slices of time
+   */
+  static *solveSteps(grid: SudokuGrid, options: SolverOptions = {}): Generator<void, SudokuGrid | null, void> {
+    const solutions = yield* this.findSolutionsSteps(grid, 1, options);
+    return solutions[0] ?? null;
+  }
+
+  /**
+   * Like findSolutions, pausing the same way as solveSteps
+   */
+  static *findSolutionsSteps(
+    grid: SudokuGrid,
+    maxSolutions: number,
+    options: SolverOptions = {}
+  ): Generator<void, SudokuGrid[], void> {
+    const topology = this.getTopology(grid.length, options.constraints);
+    const state = this.createState(grid, topology, options);
+    if (!state) return [];
+
+    const found: Uint8Array[] = [];
+    yield* this.search(state, topology, maxSolutions, found);
+    return found.map(cells => this.toGrid(cells, topology.size));
+  }
+
+  // Runs a stepwise search straight through
+  private static run<T>(steps: Generator<void, T, void>): T {
+    let step = steps.next();
+    while (!step.done) {
+      step = steps.next();
+    }
+    return step.value;
+  }
+
+  private static getTopology(size: number, constraints: Constraint[] = Constraints.getClassic(size)): Topology {
+    let topology = this.TOPOLOGIES.get(constraints);
+    if (!topology) {
+      topology = this.buildTopology(size, constraints);
+      this.TOPOLOGIES.set(constraints, topology);
+    }
+    return topology;
+  }
+
+  private static buildTopology(size: number, constraints: Constraint[]): Topology {
+    const cellCount = size * size;
+    const digits = Constraints.getDigitCount(constraints, size);
+    const houses = Constraints.getHouses(constraints).map(({ cells }) =>
+      Uint16Array.from(cells, ({ row, col }) => row * size + col)
+    );
+
+    const housesOf: number[][] = Array.from({ length: cellCount }, () => []);
+    houses.forEach((cells, house) => cells.forEach(index => housesOf[index].push(house)));
+
+    const different: number[][] = Array.from({ length: cellCount }, () => []);
+    const nonConsecutive: number[][] = Array.from({ length: cellCount }, () => []);
+    for (const { cells: [a, b], rule } of constraints.flatMap(constraint => constraint.links)) {
+      const linked = rule === 'different' ? different : nonConsecutive;
+      linked[a.row * size + a.col].push(b.row * size + b.col);
+      linked[b.row * size + b.col].push(a.row * size + a.col);
+    }
+
+    return {
+      size,
+      cellCount,
+      digits,
+      allDigits: (1 << digits) - 1,
+      playable: Uint8Array.from({ length: cellCount }, (_, i) =>
+        Constraints.isPlayable(constraints, size, Math.floor(i / size), i % size) ? 1 : 0
+      ),
+      houses,
+      housesOf: housesOf.map(list => Uint16Array.from(list)),
+      different: different.map(list => Uint16Array.from(list)),
+      nonConsecutive: nonConsecutive.map(list => Uint16Array.from(list)),
+    };
+  }
+
+  /**
+   * Loads the givens into bitmasks; returns null if two givens clash
+   */
+  private static createState(grid: SudokuGrid, topology: Topology, options: SolverOptions): SolverState | null {
+    const { size, cellCount, playable, houses, housesOf } = topology;
+    const state: SolverState = {
+      cells: new Uint8Array(cellCount),
+      houses: new Uint16Array(houses.length),
+      cages: options.cages ? this.createCageState(options.cages, cellCount, size) : null,
+      nodesLeft: options.maxNodes ?? Infinity,
+      random: options.random ?? null,
+      nodesSinceYield: 0,
+    };
+
+    for (let index = 0; index < cellCount; index++) {
+      if (!playable[index]) {
+        state.cells[index] = this.HOLE;
+        continue;
+      }
+
+      const value = grid[Math.floor(index / size)][index % size];
+      if (value === null) continue;
+
+      const bit = 1 << (value - 1);
+      if (this.getRuledOut(state, topology, index) & bit) {
+        return null;
+      }
+
+      state.cells[index] = value;
+      for (const house of housesOf[index]) {
+        state.houses[house] |= bit;
+      }
+
+      const cage = state.cages?.cageOf[index] ?? -1;
+      if (cage >= 0) {
+        const cages = state.cages!;
+        if (cages.used[cage] & bit) return null;
+        cages.used[cage] |= bit;
+        cages.remaining[cage] -= value;
+        cages.open[cage]--;
+      }
+    }
+
+    // A cage filled by givens must already make its sum
+    if (state.cages?.open.some((open, cage) => open === 0 && state.cages!.remaining[cage] !== 0)) {
+      return null;
+    }
+
+    return state;
+  }
+
+  private static createCageState(cages: Cage[], cellCount: number, size: number): CageState {
+    const state: CageState = {
+      cageOf: new Int16Array(cellCount).fill(-1),
+      used: new Uint16Array(cages.length),
+      remaining: Int16Array.from(cages, cage => cage.sum),
+      open: Uint8Array.from(cages, cage => cage.cells.length),
+      allowed: new Uint16Array(cages.length),
+    };
+    cages.forEach((cage, index) => {
+      for (const { row, col } of cage.cells) {
+        state.cageOf[row * size + col] = index;
+      }
+    });
+    return state;
+  }
+
+  /**
+   * Works out which digits each cage can still take: unused digits that
+   * leave a sum the cage's other empty cells can make with distinct digits
+   */
+  private static updateCageAllowed(cages: CageState, allDigits: number): void {
+    for (let cage = 0; cage < cages.used.length; cage++) {
+      if (cages.open[cage] === 0) continue;
+
+      const free = allDigits & ~cages.used[cage];
+      const others = cages.open[cage] - 1;
+      let allowed = 0;
+
+      for (let rest = free; rest !== 0; rest &= rest - 1) {
+        const bit = rest & -rest;
+        const digit = 32 - Math.clz32(bit);
+        const left = cages.remaining[cage] - digit;
+        const pool = free & ~bit;
+        if (others === 0
+          ? left === 0
+          : left >= this.sumOfLowest(pool, others) && left <= this.sumOfHighest(pool, others)) {
+          allowed |= bit;
+        }
+      }
+
+      cages.allowed[cage] = allowed;
+    }
+  }
+
+  private static sumOfLowest(mask: number, count: number): number {
+    let sum = 0;
+    for (let m = mask; m !== 0 && count > 0; m &= m - 1, count--) {
+      sum += 32 - Math.clz32(m & -m);
+    }
+    return count > 0 ? Infinity : sum;
+  }
+
+  private static sumOfHighest(mask: number, count: number): number {
+    let sum = 0;
+    for (let m = mask; m !== 0 && count > 0; count--) {
+      const digit = 32 - Math.clz32(m);
+      sum += digit;
+      m &= ~(1 << (digit - 1));
+    }
+    return count > 0 ? -Infinity : sum;
+  }
+
+  /**
+   * Gets the digits the houses and links of a cell rule out
+   */
+  private static getRuledOut(state: SolverState, topology: Topology, index: number): number {
+    const { cells, houses } = state;
+    const cellHouses = topology.housesOf[index];
+    const different = topology.different[index];
+    const nonConsecutive = topology.nonConsecutive[index];
+    let ruledOut = 0;
+
+    // Indexed loops: this runs for every empty cell at every search node
+    for (let i = 0; i < cellHouses.length; i++) {
+      ruledOut |= houses[cellHouses[i]];
+    }
+    for (let i = 0; i < different.length; i++) {
+      const digit = cells[different[i]];
+      if (digit !== 0) ruledOut |= 1 << (digit - 1);
+    }
+    for (let i = 0; i < nonConsecutive.length; i++) {
+      const digit = cells[nonConsecutive[i]];
+      if (digit !== 0) ruledOut |= (1 << digit) | (1 << (digit - 1) >> 1);
+    }
+
+    return ruledOut;
+  }
+
+  /**
+   * Gets the digits an empty cell can still take
+   */
+  private static getCandidates(state: SolverState, topology: Topology, index: number): number {
+    const { cages } = state;
+    const mask = topology.allDigits & ~this.getRuledOut(state, topology, index);
+    const cage = cages ? cages.cageOf[index] : -1;
+    return cage >= 0 ? mask & cages!.allowed[cage] : mask;
+  }
+
+  private static *search(
+    state: SolverState,
+    topology: Topology,
+    maxSolutions: number,
+    found: Uint8Array[]
+  ): Generator<void, void, void> {
+    const { cells, houses, cages } = state;
+    const { digits, cellCount, allDigits, housesOf } = topology;
+    if (--state.nodesLeft < 0) return;
+    if (++state.nodesSinceYield >= this.NODES_PER_YIELD) {
+      state.nodesSinceYield = 0;
+      yield;
+    }
+    if (cages) this.updateCageAllowed(cages, allDigits);
+
+    // Most-constrained cell first keeps the tree narrow
+    let bestIndex = -1;
+    let bestMask = 0;
+    let bestCount = digits + 1;
+    for (let index = 0; index < cellCount; index++) {
+      if (cells[index] !== 0) continue;
+
+      const mask = this.getCandidates(state, topology, index);
+      const count = this.BIT_COUNT[mask];
+      if (count === 0) return;
+      if (count < bestCount) {
+        bestIndex = index;
+        bestMask = mask;
+        bestCount = count;
+        if (count === 1) break;
+      }
+    }
+
+    if (bestIndex === -1) {
+      found.push(cells.slice());
+      return;
+    }
+
+    if (bestCount > 1) {
+      const forced = this.findHiddenSingle(state, topology);
+      if (forced === null) return;
+      if (forced !== undefined) {
+        bestIndex = forced.index;
+        bestMask = forced.bit;
+      }
+    }
+
+    const cellHouses = housesOf[bestIndex];
+    const cage = cages ? cages.cageOf[bestIndex] : -1;
+
+    while (bestMask !== 0) {
+      const bit = state.random ? this.pickRandomBit(bestMask, state.random) : bestMask & -bestMask;
+      bestMask ^= bit;
+      const digit = 32 - Math.clz32(bit);
+
+      cells[bestIndex] = digit;
+      for (const house of cellHouses) houses[house] |= bit;
+      if (cage >= 0) {
+        cages!.used[cage] |= bit;
+        cages!.remaining[cage] -= digit;
+        cages!.open[cage]--;
+      }
+
+      yield* this.search(state, topology, maxSolutions, found);
+
+      cells[bestIndex] = 0;
+      for (const house of cellHouses) houses[house] &= ~bit;
+      if (cage >= 0) {
+        cages!.used[cage] &= ~bit;
+        cages!.remaining[cage] += digit;
+        cages!.open[cage]++;
+      }
+
+      if (found.length >= maxSolutions || state.nodesLeft < 0) return;
+    }
+  }
+
+  /**
+   * Finds a digit with only one possible cell in some house. Returns null
+   * when a house has a digit with nowhere to go, and undefined if none is forced.
+   */
+  private static findHiddenSingle(
+    state: SolverState,
+    topology: Topology
+  ): { index: number; bit: number } | null | undefined {
+    const { cells } = state;
+    const { allDigits, houses } = topology;
+
+    for (const house of houses) {
+      let placed = 0;
+      let once = 0;
+      let twice = 0;
+      for (const index of house) {
+        if (cells[index] !== 0) {
+          placed |= 1 << (cells[index] - 1);
+          continue;
+        }
+        const mask = this.getCandidates(state, topology, index);
+        twice |= once & mask;
+        once |= mask;
+      }
+
+      if ((once | placed) !== allDigits) return null;
+
+      const single = once & ~twice;
+      if (single !== 0) {
+        const bit = single & -single;
+        for (const index of house) {
+          if (cells[index] !== 0) continue;
+          if (this.getCandidates(state, topology, index) & bit) return { index, bit };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private static pickRandomBit(mask: number, random: SeededRandom): number {
+    let rest = mask;
+    for (let skip = random.nextInt(this.BIT_COUNT[mask]); skip > 0; skip--) {
+      rest &= rest - 1;
+    }
+    return rest & -rest;
+  }
+
+  private static toGrid(cells: Uint8Array, size: number): SudokuGrid {
+    return Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => {
+        const value = cells[row * size + col];
+        return value === this.HOLE ? null : value;
+      })
+    );
+  }
+}
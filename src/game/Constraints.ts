@@ -0,0 +1,313 @@
+import {
+  Candidate,
+  CellLink,
+  CellValue,
+  Constraint,
+  ConstraintMarking,
+  ConstraintType,
+  GridLayout,
+  GridSize,
+  House,
+  HouseType,
+  Position,
+  RegionMap,
+  SudokuGrid,
+  Variant,
+} from '../types/game';
+import { GridShape } from './GridShape';
+
+// For every cell index: the cells that may not share its value, the
+// neighbours whose values may not be one away from it, and whether any rule
+// covers the cell at all. Values run from 1 to the digit count.
+type CellRelations = {
+  peers: Position[][];
+  nonConsecutive: Position[][];
+  playable: boolean[];
+  digits: number;
+};
+
+/**
+ * Builds the rules a puzzle is played under. Every rule comes down to
+ * houses whose values all differ plus links between pairs of cells, so the
+ * solvers, validation and candidates all work from the same data whatever
+ * the mix of rules. The board draws each rule's markings.
+ */
+export class Constraints {
+  static readonly CLASSIC: ConstraintType[] = ['row', 'column', 'box'];
+  // Variant rules that can be played on top of the classic ones
+  static readonly EXTRAS: ConstraintType[] = ['diagonal', 'antiKnight', 'antiKing', 'windoku', 'nonConsecutive'];
+
+  private static readonly NAMES: Record<ConstraintType, string> = {
+    row: 'Row',
+    column: 'Column',
+    box: 'Box',
+    diagonal: 'Diagonal',
+    antiKnight: 'Anti-Knight',
+    antiKing: 'Anti-King',
+    windoku: 'Windoku',
+    nonConsecutive: 'Non-Consecutive',
+  };
+
+  // Extra rules the generator can't reliably fill a grid under
+  private static readonly UNSUPPORTED_EXTRAS: Partial<Record<GridSize, ConstraintType[]>> = {
+    4: ['antiKing', 'nonConsecutive'],
+    12: ['windoku'],
+    16: ['windoku'],
+  };
+
+  // Half of each move set; every link already covers both directions
+  private static readonly KNIGHT_MOVES = [[1, -2], [1, 2], [2, -1], [2, 1]];
+  private static readonly KING_DIAGONAL_MOVES = [[1, -1], [1, 1]];
+  private static readonly ORTHOGONAL_MOVES = [[0, 1], [1, 0]];
+
+  private static readonly CLASSIC_SETS = new Map<number, Constraint[]>();
+  private static readonly RELATIONS = new WeakMap<Constraint[], CellRelations>();
+
+  /**
+   * Builds the rules for a grid; a region map replaces the boxes with Jigsaw
+   * regions, and with a multi-grid layout each rule applies within every grid
+   */
+  static build(types: ConstraintType[], size: number, regions?: RegionMap, layout?: GridLayout): Constraint[] {
+    return types.map(type => layout ? this.createOnLayout(type, layout) : this.create(type, size, regions));
+  }
+
+  /**
+   * Gets the shared classic rules for a grid size
+   */
+  static getClassic(size: number): Constraint[] {
+    let constraints = this.CLASSIC_SETS.get(size);
+    if (!constraints) {
+      constraints = this.build(this.CLASSIC, size);
+      this.CLASSIC_SETS.set(size, constraints);
+    }
+    return constraints;
+  }
+
+  /**
+   * Checks whether a rule list is just classic Sudoku; a missing list is
+   */
+  static isClassic(types?: ConstraintType[]): boolean {
+    return !types || types.every(type => this.CLASSIC.includes(type));
+  }
+
+  /**
+   * Checks whether puzzles can be generated under a mix of rules. Jigsaw
+   * regions leave no room for extra rules; other puzzles take one, or two
+   * on a single 9x9 grid as long as Windoku isn't paired with Non-Consecutive.
+   */
+  static isSupported(types: ConstraintType[], size: GridSize, variant: Variant): boolean {
+    const extras = types.filter(type => !this.CLASSIC.includes(type));
+    if (extras.length === 0) return true;
+    if (variant === 'jigsaw') return false;
+
+    const unsupported = variant === 'samurai' ? ['nonConsecutive'] : this.UNSUPPORTED_EXTRAS[size] ?? [];
+    if (extras.some(type => unsupported.includes(type))) return false;
+
+    if (size === 9 && variant !== 'samurai') {
+      return extras.length <= 2 && !(extras.includes('windoku') && extras.includes('nonConsecutive'));
+    }
+    return extras.length === 1;
+  }
+
+  /**
+   * Checks that a value parsed from saved or imported data names a known rule
+   */
+  static isConstraintType(value: unknown): value is ConstraintType {
+    return typeof value === 'string' && Object.keys(this.NAMES).includes(value);
+  }
+
+  static getName(type: ConstraintType): string {
+    return this.NAMES[type];
+  }
+
+  /**
+   * Gets the houses of all the rules, taking the first house of each rule,
+   * then the second, and so on: row 1, column 1, box 1, row 2...
+   */
+  static getHouses(constraints: Constraint[]): Constraint['houses'] {
+    const count = Math.max(0, ...constraints.map(({ houses }) => houses.length));
+    return Array.from({ length: count }, (_, index) =>
+      constraints.flatMap(({ houses }) => houses.slice(index, index + 1))
+    ).flat();
+  }
+
+  /**
+   * Gets how many values the puzzle uses. Every house holds each value once,
+   * so this is the size of a house, which on a Samurai board is smaller
+   * than the board.
+   */
+  static getDigitCount(constraints: Constraint[], size: number): number {
+    return this.getRelations(constraints, size).digits;
+  }
+
+  /**
+   * Checks whether a cell is part of the puzzle; the holes between the grids
+   * of a Samurai board are not
+   */
+  static isPlayable(constraints: Constraint[], size: number, row: number, col: number): boolean {
+    return this.getRelations(constraints, size).playable[row * size + col];
+  }
+
+  /**
+   * Gets every cell that may not hold the same value as the given cell
+   */
+  static getPeers(constraints: Constraint[], size: number, row: number, col: number): Position[] {
+    return this.getRelations(constraints, size).peers[row * size + col];
+  }
+
+  /**
+   * Checks whether a value can go in a cell given the other filled cells
+   */
+  static allows(grid: SudokuGrid, constraints: Constraint[], row: number, col: number, value: number): boolean {
+    const size = grid.length;
+    const { peers, nonConsecutive } = this.getRelations(constraints, size);
+    const index = row * size + col;
+
+    return peers[index].every(peer => grid[peer.row][peer.col] !== value)
+      && nonConsecutive[index].every(neighbour => !this.isOneApart(grid[neighbour.row][neighbour.col], value));
+  }
+
+  /**
+   * Gets the candidates that placing a value in a cell rules out elsewhere
+   */
+  static getEliminations(
+    constraints: Constraint[],
+    size: number,
+    row: number,
+    col: number,
+    value: number
+  ): Candidate[] {
+    const { peers, nonConsecutive, digits } = this.getRelations(constraints, size);
+    const index = row * size + col;
+
+    return [
+      ...peers[index].map(position => ({ position, value })),
+      ...nonConsecutive[index].flatMap(position =>
+        [value - 1, value + 1].filter(other => other >= 1 && other <= digits).map(other => ({ position, value: other }))
+      ),
+    ];
+  }
+
+  private static create(type: ConstraintType, size: number, regions?: RegionMap): Constraint {
+    switch (type) {
+      case 'row':
+      case 'column':
+      case 'box':
+        return { type, houses: this.createHouses(type, size, size, regions), links: [], markings: [] };
+      case 'diagonal': {
+        const last = size - 1;
+        const markings: ConstraintMarking[] = [
+          { kind: 'line', from: { row: 0, col: 0 }, to: { row: last, col: last } },
+          { kind: 'line', from: { row: 0, col: last }, to: { row: last, col: 0 } },
+        ];
+        return { type, houses: this.createHouses('diagonal', 2, size), links: [], markings };
+      }
+      case 'windoku': {
+        const houses = this.createHouses('window', GridShape.getWindowOrigins(size).length, size);
+        const markings = houses.map(({ cells }): ConstraintMarking => ({ kind: 'shade', cells }));
+        return { type, houses, links: [], markings };
+      }
+      case 'antiKnight':
+        return { type, houses: [], links: this.createLinks(size, this.KNIGHT_MOVES, 'different'), markings: [] };
+      case 'antiKing':
+        return { type, houses: [], links: this.createLinks(size, this.KING_DIAGONAL_MOVES, 'different'), markings: [] };
+      case 'nonConsecutive':
+        return { type, houses: [], links: this.createLinks(size, this.ORTHOGONAL_MOVES, 'nonConsecutive'), markings: [] };
+    }
+  }
+
+  /**
+   * Builds a rule for each grid of a layout and moves it onto the board;
+   * houses remember which grid they came from
+   */
+  private static createOnLayout(type: ConstraintType, layout: GridLayout): Constraint {
+    const grids = layout.origins.map((origin, grid) => {
+      const shift = ({ row, col }: Position): Position => ({ row: row + origin.row, col: col + origin.col });
+      const { houses, links, markings } = this.create(type, layout.gridSize);
+
+      return {
+        houses: houses.map(({ house, cells }) => ({ house: { ...house, grid }, cells: cells.map(shift) })),
+        links: links.map(({ cells: [a, b], rule }): CellLink => ({ cells: [shift(a), shift(b)], rule })),
+        markings: markings.map((marking): ConstraintMarking => marking.kind === 'line'
+          ? { kind: 'line', from: shift(marking.from), to: shift(marking.to) }
+          : { kind: 'shade', cells: marking.cells.map(shift) }
+        ),
+      };
+    });
+
+    return {
+      type,
+      houses: grids.flatMap(({ houses }) => houses),
+      links: grids.flatMap(({ links }) => links),
+      markings: grids.flatMap(({ markings }) => markings),
+    };
+  }
+
+  private static createHouses(type: HouseType, count: number, size: number, regions?: RegionMap): Constraint['houses'] {
+    return Array.from({ length: count }, (_, index) => {
+      const house: House = { type, index };
+      return { house, cells: GridShape.getHouseCells(house, size, regions) };
+    });
+  }
+
+  private static createLinks(size: number, moves: number[][], rule: CellLink['rule']): CellLink[] {
+    const links: CellLink[] = [];
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        for (const [dRow, dCol] of moves) {
+          const other = { row: row + dRow, col: col + dCol };
+          if (other.row < size && other.col >= 0 && other.col < size) {
+            links.push({ cells: [{ row, col }, other], rule });
+          }
+        }
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Works out each cell's related cells once per rule set
+   */
+  private static getRelations(constraints: Constraint[], size: number): CellRelations {
+    let relations = this.RELATIONS.get(constraints);
+    if (relations) return relations;
+
+    const cellCount = size * size;
+    const peerSets = Array.from({ length: cellCount }, () => new Set<number>());
+    const neighbourSets = Array.from({ length: cellCount }, () => new Set<number>());
+    const playable = Array.from({ length: cellCount }, () => false);
+    const toIndex = ({ row, col }: Position) => row * size + col;
+
+    const houses = this.getHouses(constraints);
+    for (const { cells } of houses) {
+      for (const cell of cells) {
+        playable[toIndex(cell)] = true;
+        for (const other of cells) {
+          if (other !== cell) peerSets[toIndex(cell)].add(toIndex(other));
+        }
+      }
+    }
+    for (const { cells: [a, b], rule } of constraints.flatMap(({ links }) => links)) {
+      const sets = rule === 'different' ? peerSets : neighbourSets;
+      sets[toIndex(a)].add(toIndex(b));
+      sets[toIndex(b)].add(toIndex(a));
+    }
+
+    const toPositions = (set: Set<number>) =>
+      [...set].sort((a, b) => a - b).map(index => ({ row: Math.floor(index / size), col: index % size }));
+    // Rules made only of links, with no houses, cover the whole grid
+    const digits = houses.length > 0 ? Math.max(...houses.map(({ cells }) => cells.length)) : size;
+    relations = {
+      peers: peerSets.map(toPositions),
+      nonConsecutive: neighbourSets.map(toPositions),
+      playable: houses.length > 0 ? playable : playable.map(() => true),
+      digits,
+    };
+    this.RELATIONS.set(constraints, relations);
+    return relations;
+  }
+
+  private static isOneApart(value: CellValue, other: number): boolean {
+    return value !== null && Math.abs(value - other) === 1;
+  }
+}
@@ -0,0 +1,70 @@
+import { Difficulty, GeneratedPuzzle, GenerationOptions } from '../types/game';
+import { SudokuEngine } from './SudokuEngine';
+
+export class DailyChallenge {
+  // Difficulty by day of week, Sunday first: easy early in the week, hard at the weekend
+  private static readonly WEEKDAY_DIFFICULTY: Difficulty[] = [
+    'hard', 'easy', 'easy', 'medium', 'medium', 'medium', 'hard',
+  ];
+
+  /**
+   * Gets the YYYY-MM-DD key for a local calendar day
+   */
+  static getDateKey(date: Date = new Date()): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Parses a date key back into a local Date at midnight
+   */
+  static parseDateKey(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Moves a date key by a number of days
+   */
+  static addDays(dateKey: string, days: number): string {
+    const date = this.parseDateKey(dateKey);
+    date.setDate(date.getDate() + days);
+    return this.getDateKey(date);
+  }
+
+  /**
+   * Derives the puzzle seed from the date so every player gets the same puzzle
+   */
+  static getSeed(dateKey: string): number {
+    // FNV-1a hash of the key
+    const text = `daily:${dateKey}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  static getDifficulty(dateKey: string): Difficulty {
+    return this.WEEKDAY_DIFFICULTY[this.parseDateKey(dateKey).getDay()];
+  }
+
+  /**
+   * Generates the puzzle for a given day, fully offline. Resolves to null if
+   * the signal aborts.
+   */
+  static async generate(
+    dateKey: string,
+    options: Pick<GenerationOptions, 'onProgress' | 'signal'> = {}
+  ): Promise<(GeneratedPuzzle & { difficulty: Difficulty }) | null> {
+    const difficulty = this.getDifficulty(dateKey);
+    // No timeout, so every player gets the puzzle the seed generates
+    const generated = await SudokuEngine.generatePuzzleAsync(difficulty, this.getSeed(dateKey), {
+      ...options,
+      timeoutMs: Infinity,
+    });
+    return generated && { ...generated, difficulty };
+  }
+}
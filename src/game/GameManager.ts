@@ -1,5 +1,44 @@
-import { GameData, Move, Position, CellValue, Difficulty, GameState, ValidationResult } from '../types/game';
+import {
+  GameData,
+  GameHistoryEntry,
+  Move,
+  MoveKind,
+  Position,
+  CellValue,
+  Difficulty,
+  ErrorCheckMode,
+  GameState,
+  ValidationResult,
+  PuzzleGrade,
+  SudokuGrid,
+  SymbolSet,
+  Cage,
+  RegionMap,
+  GridLayout,
+  Constraint,
+  ConstraintType,
+  DailyChallengeInfo,
+  Digit,
+  GenerationOptions,
+  NewGameOptions,
+  NoteChange,
+  Candidate,
+  Hint,
+  HintStage,
+  ImportedPuzzle,
+  NoteGrid,
+} from '../types/game';
 import { SudokuEngine } from './SudokuEngine';
+import { LogicalSolver } from './LogicalSolver';
+import { DailyChallenge } from './DailyChallenge';
+import { PuzzlePool } from './PuzzlePool';
+import { GridShape } from './GridShape';
+import { Constraints } from './Constraints';
+import { GameModes } from './GameModes';
+import { Storage } from '../utils/Storage';
+
+// Error check modes from least to most helpful
+const ERROR_CHECK_MODES: ErrorCheckMode[] = ['off', 'conflicts', 'solution'];
 
 export class GameManager {
   private gameData: GameData | null = null;
@@ -7,13 +46,20 @@ export class GameManager {
   private startTime: number = 0;
   private pausedTime: number = 0;
   private timerInterval: NodeJS.Timeout | null = null;
+  private autoCandidates: boolean = false;
+  private errorCheckMode: ErrorCheckMode = 'conflicts';
+  private activeHint: Hint | null = null;
+  // Built from the game's rule list and regions whenever a game starts
+  private constraints: Constraint[] | null = null;
 
   // Event callbacks
   private onGameStateChange?: (state: GameState) => void;
   private onGridUpdate?: (grid: GameData['grid']) => void;
+  private onNotesUpdate?: (notes: GameData['notes']) => void;
   private onTimeUpdate?: (timeElapsed: number) => void;
   private onGameComplete?: (gameData: GameData) => void;
   private onValidationUpdate?: (result: ValidationResult) => void;
+  private onHintUpdate?: (hint: Hint | null) => void;
 
   constructor() {
     this.bindMethods();
@@ -21,12 +67,22 @@ export class GameManager {
 
   private bindMethods() {
     this.startNewGame = this.startNewGame.bind(this);
+    this.startDailyChallenge = this.startDailyChallenge.bind(this);
+    this.loadGame = this.loadGame.bind(this);
+    this.startImportedGame = this.startImportedGame.bind(this);
     this.makeMove = this.makeMove.bind(this);
+    this.toggleNote = this.toggleNote.bind(this);
+    this.fillCandidates = this.fillCandidates.bind(this);
+    this.revealCell = this.revealCell.bind(this);
     this.undoMove = this.undoMove.bind(this);
+    this.redoMove = this.redoMove.bind(this);
     this.pauseGame = this.pauseGame.bind(this);
     this.resumeGame = this.resumeGame.bind(this);
     this.validateGame = this.validateGame.bind(this);
     this.getHint = this.getHint.bind(this);
+    this.advanceHint = this.advanceHint.bind(this);
+    this.applyHint = this.applyHint.bind(this);
+    this.dismissHint = this.dismissHint.bind(this);
   }
 
   /**
@@ -40,6 +96,10 @@ export class GameManager {
     this.onGridUpdate = callback;
   }
 
+  setOnNotesUpdate(callback: (notes: GameData['notes']) => void) {
+    this.onNotesUpdate = callback;
+  }
+
   setOnTimeUpdate(callback: (timeElapsed: number) => void) {
     this.onTimeUpdate = callback;
   }
@@ -52,45 +112,283 @@ export class GameManager {
     this.onValidationUpdate = callback;
   }
 
+  setOnHintUpdate(callback: (hint: Hint | null) => void) {
+    this.onHintUpdate = callback;
+  }
+
   /**
-   * Starts a new game with specified difficulty
+   * Turns automatic candidate maintenance on or off. Turning it on during a
+   * game fills in the candidates straight away.
    */
-  async startNewGame(difficulty: Difficulty): Promise<void> {
-    try {
-      // Generate new puzzle
-      const { puzzle, solution } = SudokuEngine.generatePuzzle(difficulty);
-      
-      // Create new game data
-      this.gameData = {
-        id: this.generateGameId(),
-        grid: SudokuEngine.cloneGrid(puzzle),
-        solution: solution,
-        originalGrid: SudokuEngine.cloneGrid(puzzle),
-        difficulty: difficulty,
-        timeElapsed: 0,
-        moveHistory: [],
-        isCompleted: false,
-        createdAt: Date.now()
-      };
+  setAutoCandidates(enabled: boolean): void {
+    this.autoCandidates = enabled;
+    if (enabled && this.gameState === 'playing') {
+      this.fillCandidates();
+    }
+  }
 
-      // Reset timer
-      this.startTime = Date.now();
-      this.pausedTime = 0;
-      
-      // Update state
-      this.setGameState('playing');
-      this.startTimer();
-      
-      // Notify listeners
-      this.onGridUpdate?.(this.gameData.grid);
+  /**
+   * Sets how entries are checked. Changing it during a game re-checks the
+   * board straight away.
+   */
+  setErrorCheckMode(mode: ErrorCheckMode): void {
+    this.errorCheckMode = mode;
+    if (this.gameData && !this.gameData.isCompleted) {
+      this.recordErrorCheckMode();
       this.validateGame();
-      
+      this.saveProgress();
+    }
+  }
+
+  /**
+   * Starts a new game with specified difficulty; pass a seed to replay a known puzzle.
+   * Generation yields to the UI as it goes and resolves to false if cancelled.
+   */
+  async startNewGame(difficulty: Difficulty, seed?: number, options: NewGameOptions = {}): Promise<boolean> {
+    try {
+      // Keep a background refill from competing with this game's puzzle
+      PuzzlePool.cancelRefill();
+
+      // A ready-made puzzle from the pool, unless a specific seed, size, variant or rule was asked for
+      const usePool = seed === undefined
+        && (options.size ?? GridShape.DEFAULT_SIZE) === GridShape.DEFAULT_SIZE
+        && (options.variant ?? 'classic') === 'classic'
+        && Constraints.isClassic(options.constraints);
+      const pooled = usePool ? await PuzzlePool.take(difficulty) : null;
+      if (options.signal?.aborted) {
+        if (pooled) await PuzzlePool.putBack(difficulty, pooled);
+        return false;
+      }
+      const generated = pooled ?? await SudokuEngine.generatePuzzleAsync(difficulty, seed, options);
+      if (!generated || options.signal?.aborted) return false;
+
+      const { puzzle, solution, grade, seed: puzzleSeed, cages, regions, layout, constraints } = generated;
+      const started = await this.beginGame({
+        puzzle,
+        solution,
+        grade,
+        seed: puzzleSeed,
+        // The closest candidate is used when none lands in the band asked for
+        difficulty: grade?.difficulty ?? difficulty,
+        symbols: options.symbols,
+        cages,
+        regions,
+        layout,
+        constraints,
+      }, options.signal);
+      // A pooled puzzle taken for a cancelled start was never played
+      if (!started && pooled) await PuzzlePool.putBack(difficulty, pooled);
+      return started;
     } catch (error) {
       console.error('Failed to start new game:', error);
       throw error;
     }
   }
 
+  /**
+   * Starts the daily challenge for a calendar day (YYYY-MM-DD). Like
+   * startNewGame, it resolves to false if cancelled.
+   */
+  async startDailyChallenge(
+    date: string,
+    isReplay: boolean,
+    options: Pick<GenerationOptions, 'onProgress' | 'signal'> = {}
+  ): Promise<boolean> {
+    try {
+      PuzzlePool.cancelRefill();
+
+      const generated = await DailyChallenge.generate(date, options);
+      if (!generated || options.signal?.aborted) return false;
+
+      const { puzzle, solution, grade, seed, difficulty } = generated;
+      return await this.beginGame({ puzzle, solution, grade, seed, difficulty, daily: { date, isReplay } }, options.signal);
+    } catch (error) {
+      console.error('Failed to start daily challenge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a game from an imported puzzle, restoring any progress it carries
+   */
+  async startImportedGame(imported: ImportedPuzzle): Promise<void> {
+    try {
+      const constraints = Constraints.build(imported.constraints ?? Constraints.CLASSIC, imported.givens.length);
+      const grade = LogicalSolver.gradePuzzle(imported.givens, constraints);
+      await this.beginGame({
+        puzzle: imported.givens,
+        solution: imported.solution,
+        grade,
+        difficulty: grade.difficulty,
+        progress: imported.progress,
+        notes: imported.notes,
+        timeElapsed: imported.timeElapsed,
+        constraints: imported.constraints,
+      });
+    } catch (error) {
+      console.error('Failed to start imported game:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a fresh attempt at a puzzle from the game history. A daily
+   * challenge played again counts as a replay.
+   */
+  async replayGame(entry: GameHistoryEntry): Promise<void> {
+    try {
+      await this.beginGame({
+        puzzle: entry.originalGrid,
+        solution: entry.solution,
+        grade: entry.grade,
+        seed: entry.seed,
+        difficulty: entry.difficulty,
+        daily: entry.daily && { date: entry.daily.date, isReplay: true },
+        symbols: entry.symbols,
+        cages: entry.cages,
+        regions: entry.regions,
+        layout: entry.layout,
+        constraints: entry.constraints,
+      });
+    } catch (error) {
+      console.error('Failed to replay game:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a game in place of any saved one, which goes into the history as
+   * abandoned. Resolves to false, starting nothing, if the signal aborts.
+   */
+  private async beginGame(options: {
+    puzzle: SudokuGrid;
+    solution: SudokuGrid;
+    grade?: PuzzleGrade;
+    seed?: number;
+    difficulty: Difficulty;
+    daily?: DailyChallengeInfo;
+    progress?: SudokuGrid;
+    notes?: NoteGrid;
+    timeElapsed?: number;
+    symbols?: SymbolSet;
+    cages?: Cage[];
+    regions?: RegionMap;
+    layout?: GridLayout;
+    constraints?: ConstraintType[];
+  }, signal?: AbortSignal): Promise<boolean> {
+    await Storage.abandonCurrentGame();
+    if (signal?.aborted) return false;
+
+    const {
+      puzzle, solution, grade, seed, difficulty, daily, progress, notes, timeElapsed, symbols, cages, regions, layout,
+      constraints,
+    } = options;
+    this.constraints = Constraints.build(constraints ?? Constraints.CLASSIC, puzzle.length, regions, layout);
+
+    // Create new game data
+    this.gameData = {
+      id: this.generateGameId(),
+      grid: SudokuEngine.cloneGrid(progress ?? puzzle),
+      solution: solution,
+      originalGrid: SudokuEngine.cloneGrid(puzzle),
+      notes: notes
+        ?? (this.autoCandidates
+          ? SudokuEngine.getCandidates(progress ?? puzzle, this.constraints)
+          : SudokuEngine.createEmptyNotes(puzzle.length)),
+      difficulty: difficulty,
+      grade: grade,
+      seed: seed,
+      timeElapsed: timeElapsed ?? 0,
+      moveHistory: [],
+      redoHistory: [],
+      playLog: [],
+      mistakes: 0,
+      hintsUsed: 0,
+      isCompleted: false,
+      createdAt: Date.now(),
+      daily,
+      symbols,
+      cages,
+      regions,
+      layout,
+      constraints,
+      errorCheckMode: this.errorCheckMode,
+    };
+
+    this.startSession();
+
+    await Storage.recordGameStarted(difficulty, GameModes.of(this.gameData));
+    await Storage.recordPlayedPuzzle(puzzle);
+    PuzzlePool.scheduleRefill();
+    return true;
+  }
+
+  /**
+   * Restores a saved game and continues it from where it was left
+   */
+  loadGame(savedGame: GameData): void {
+    // Games saved by older versions lack the newer fields
+    this.gameData = {
+      ...savedGame,
+      notes: savedGame.notes ?? SudokuEngine.createEmptyNotes(savedGame.grid.length),
+      redoHistory: savedGame.redoHistory ?? [],
+      playLog: savedGame.playLog ?? savedGame.moveHistory.map(move => ({ action: 'move', move })),
+      mistakes: savedGame.mistakes ?? 0,
+      hintsUsed: savedGame.hintsUsed ?? 0,
+    };
+    this.constraints = Constraints.build(
+      savedGame.constraints ?? Constraints.CLASSIC,
+      savedGame.grid.length,
+      savedGame.regions,
+      savedGame.layout
+    );
+    this.recordErrorCheckMode();
+
+    this.startSession();
+  }
+
+  /**
+   * Gives up on the current game: it goes into the history as abandoned and
+   * can't be continued
+   */
+  async abandonGame(): Promise<void> {
+    if (!this.gameData || this.gameData.isCompleted) return;
+
+    this.stopTimer();
+    this.gameData.timeElapsed = this.getCurrentTimeElapsed();
+    const gameData = this.gameData;
+    this.gameData = null;
+    this.constraints = null;
+    this.gameState = 'menu';
+
+    await Storage.addGameHistory(gameData, 'abandoned');
+    await Storage.clearCurrentGame();
+  }
+
+  /**
+   * Starts the clock and play for the loaded game data
+   */
+  private startSession(): void {
+    if (!this.gameData) return;
+
+    this.setActiveHint(null);
+
+    // Continue the clock from the elapsed time (zero for a new game)
+    this.startTime = Date.now() - this.gameData.timeElapsed * 1000;
+    this.pausedTime = 0;
+    
+    // Update state
+    this.setGameState('playing');
+    this.startTimer();
+    
+    // Notify listeners
+    this.onGridUpdate?.(this.gameData.grid);
+    this.onNotesUpdate?.(this.gameData.notes);
+    this.onTimeUpdate?.(this.gameData.timeElapsed);
+    this.validateGame();
+    this.saveProgress();
+  }
+
   /**
    * Makes a move at the specified position
    */
@@ -99,36 +397,93 @@ export class GameManager {
       return false;
     }
 
-    // Don't allow moves on original puzzle cells
-    if (this.gameData.originalGrid[row][col] !== null) {
+    // Don't allow moves on original puzzle cells or the holes of a Samurai board
+    if (this.gameData.originalGrid[row][col] !== null || !this.isPlayable(row, col)) {
       return false;
     }
 
-    const previousValue = this.gameData.grid[row][col];
-    
-    // Create move record
-    const move: Move = {
-      position: { row, col },
-      previousValue,
-      newValue: value,
-      timestamp: Date.now()
-    };
+    if (value !== null && value !== this.gameData.solution[row][col]) {
+      this.gameData.mistakes++;
+    }
 
-    // Make the move
-    this.gameData.grid[row][col] = value;
-    this.gameData.moveHistory.push(move);
+    this.commitMove(this.createValueMove(row, col, value, 'value'));
+    return true;
+  }
 
-    // Notify listeners
-    this.onGridUpdate?.(this.gameData.grid);
-    
-    // Validate game
-    const validationResult = this.validateGame();
-    
-    // Check if game is completed
-    if (validationResult.isCompleted) {
-      this.completeGame();
+  /**
+   * Fills a cell with its solution value as an undoable hint reveal
+   */
+  revealCell(row: number, col: number): boolean {
+    if (!this.gameData || this.gameState !== 'playing') {
+      return false;
+    }
+
+    const value = this.gameData.solution[row][col];
+    if (this.gameData.originalGrid[row][col] !== null || this.gameData.grid[row][col] === value) {
+      return false;
+    }
+
+    this.commitMove(this.createValueMove(row, col, value, 'hint'));
+    return true;
+  }
+
+  /**
+   * Adds or removes a pencil mark in an empty cell
+   */
+  toggleNote(row: number, col: number, value: Digit): boolean {
+    if (!this.gameData || this.gameState !== 'playing') {
+      return false;
+    }
+
+    // Notes only make sense in cells without a value
+    if (this.gameData.grid[row][col] !== null || !this.isPlayable(row, col)) {
+      return false;
+    }
+
+    const previousNotes = this.gameData.notes[row][col];
+    const newNotes = previousNotes.includes(value)
+      ? previousNotes.filter(note => note !== value)
+      : [...previousNotes, value].sort((a, b) => a - b);
+
+    this.commitMove({
+      position: { row, col },
+      previousValue: null,
+      newValue: null,
+      timestamp: Date.now(),
+      kind: 'note',
+      noteChanges: [{ position: { row, col }, previousNotes, newNotes }],
+    });
+    return true;
+  }
+
+  /**
+   * Fills every empty cell's notes with the digits the grid still allows
+   */
+  fillCandidates(): boolean {
+    if (!this.gameData || this.gameState !== 'playing') {
+      return false;
     }
 
+    const candidates = SudokuEngine.getCandidates(this.gameData.grid, this.constraints!);
+    const noteChanges: NoteChange[] = [];
+    this.gameData.notes.forEach((rowNotes, row) =>
+      rowNotes.forEach((previousNotes, col) => {
+        const newNotes = candidates[row][col];
+        if (previousNotes.join() !== newNotes.join()) {
+          noteChanges.push({ position: { row, col }, previousNotes, newNotes });
+        }
+      })
+    );
+    if (noteChanges.length === 0) return false;
+
+    this.commitMove({
+      position: noteChanges[0].position,
+      previousValue: null,
+      newValue: null,
+      timestamp: Date.now(),
+      kind: 'candidates',
+      noteChanges,
+    });
     return true;
   }
 
@@ -136,23 +491,153 @@ export class GameManager {
    * Undoes the last move
    */
   undoMove(): boolean {
-    if (!this.gameData || this.gameData.moveHistory.length === 0) {
+    if (!this.gameData || this.gameState !== 'playing' || this.gameData.moveHistory.length === 0) {
       return false;
     }
 
     const lastMove = this.gameData.moveHistory.pop()!;
-    const { row, col } = lastMove.position;
-    
-    // Restore previous value
-    this.gameData.grid[row][col] = lastMove.previousValue;
+    this.applyMove(lastMove, 'undo');
+    this.gameData.redoHistory.push(lastMove);
+    this.gameData.playLog.push({ action: 'undo', timestamp: Date.now() });
 
-    // Notify listeners
-    this.onGridUpdate?.(this.gameData.grid);
-    this.validateGame();
+    this.notifyBoardChanged();
+    return true;
+  }
 
+  /**
+   * Re-applies the most recently undone move
+   */
+  redoMove(): boolean {
+    if (!this.gameData || this.gameState !== 'playing' || this.gameData.redoHistory.length === 0) {
+      return false;
+    }
+
+    const nextMove = this.gameData.redoHistory.pop()!;
+    this.applyMove(nextMove, 'redo');
+    this.gameData.moveHistory.push(nextMove);
+    this.gameData.playLog.push({ action: 'redo', timestamp: Date.now() });
+
+    this.notifyBoardChanged();
     return true;
   }
 
+  /**
+   * Builds a value change, including the pencil marks it clears
+   */
+  private createValueMove(row: number, col: number, value: CellValue, kind: MoveKind): Move {
+    const notes = this.gameData!.notes;
+    const previousNotes = notes[row][col];
+
+    // Placing a value clears the cell's own pencil marks
+    const noteChanges: NoteChange[] = [];
+    if (value !== null && previousNotes.length > 0) {
+      noteChanges.push({ position: { row, col }, previousNotes, newNotes: [] });
+    }
+
+    // With auto candidates on, drop the candidates the placed digit rules out
+    if (value !== null && this.autoCandidates) {
+      const eliminations = SudokuEngine.getEliminations(row, col, value, notes.length, this.constraints!);
+      for (const { position, value: ruledOut } of eliminations) {
+        // A cell can lose several candidates, say both neighbours of a digit
+        const change = noteChanges.find(({ position: other }) =>
+          other.row === position.row && other.col === position.col
+        );
+        const peerNotes = change?.newNotes ?? notes[position.row][position.col];
+        if (!peerNotes.includes(ruledOut)) continue;
+
+        const newNotes = peerNotes.filter(note => note !== ruledOut);
+        if (change) {
+          change.newNotes = newNotes;
+        } else {
+          noteChanges.push({ position, previousNotes: peerNotes, newNotes });
+        }
+      }
+    }
+
+    return {
+      position: { row, col },
+      previousValue: this.gameData!.grid[row][col],
+      newValue: value,
+      timestamp: Date.now(),
+      kind,
+      noteChanges,
+    };
+  }
+
+  /**
+   * Applies a new move; any new move invalidates the redo stack
+   */
+  private commitMove(move: Move): void {
+    if (!this.gameData) return;
+
+    this.applyMove(move, 'redo');
+    this.gameData.moveHistory.push(move);
+    this.gameData.redoHistory = [];
+    this.gameData.playLog.push({ action: 'move', move });
+
+    this.notifyBoardChanged();
+  }
+
+  /**
+   * Applies a move forwards ('redo') or backwards ('undo')
+   */
+  private applyMove(move: Move, direction: 'undo' | 'redo'): void {
+    if (!this.gameData) return;
+
+    // Note-only moves (including hint eliminations) leave the value untouched
+    if (move.previousValue !== move.newValue) {
+      const { row, col } = move.position;
+      this.gameData.grid[row][col] = direction === 'undo' ? move.previousValue : move.newValue;
+    }
+    this.applyNoteChanges(move.noteChanges ?? [], direction === 'undo' ? 'previousNotes' : 'newNotes');
+  }
+
+  /**
+   * Notifies listeners after the board changed and checks for completion
+   */
+  private notifyBoardChanged(): void {
+    if (!this.gameData) return;
+
+    // Any change to the board can make the showing hint stale
+    if (this.activeHint) {
+      this.setActiveHint(null);
+    }
+
+    this.onGridUpdate?.(this.gameData.grid);
+    this.onNotesUpdate?.(this.gameData.notes);
+
+    const validationResult = this.validateGame();
+    if (validationResult.isCompleted) {
+      this.completeGame();
+    } else {
+      this.saveProgress();
+    }
+  }
+
+  /**
+   * Autosaves the game in progress so it can be resumed later
+   */
+  private saveProgress(): void {
+    if (!this.gameData || this.gameData.isCompleted) return;
+
+    this.gameData.timeElapsed = this.getCurrentTimeElapsed();
+    Storage.saveCurrentGame(this.gameData);
+  }
+
+  /**
+   * Writes one side of a set of note changes into the notes layer
+   */
+  private applyNoteChanges(noteChanges: NoteChange[], side: 'previousNotes' | 'newNotes'): void {
+    if (!this.gameData) return;
+
+    // Restore in reverse so a cell touched twice ends at its earliest state
+    const ordered = side === 'previousNotes' ? [...noteChanges].reverse() : noteChanges;
+    for (const change of ordered) {
+      const { row, col } = change.position;
+      this.gameData.notes[row][col] = [...change[side]];
+    }
+  }
+
   /**
    * Pauses the current game
    */
@@ -161,6 +646,7 @@ export class GameManager {
       this.setGameState('paused');
       this.pausedTime = Date.now();
       this.stopTimer();
+      this.saveProgress();
     }
   }
 
@@ -183,12 +669,101 @@ export class GameManager {
   }
 
   /**
-   * Gets a hint for the current game
+   * Gets the current hint, creating a new one at stage 1 if none is showing
    */
-  getHint(): Position | null {
-    if (!this.gameData) return null;
-    
-    return SudokuEngine.getHint(this.gameData.grid, this.gameData.solution);
+  getHint(): Hint | null {
+    if (!this.gameData || this.gameState !== 'playing') return null;
+    if (this.activeHint) return this.activeHint;
+
+    const { grid, solution, notes } = this.gameData;
+    const hint = SudokuEngine.getHint(grid, solution, notes, this.constraints!);
+    if (hint) {
+      this.gameData.hintsUsed++;
+    }
+    this.setActiveHint(hint);
+    return hint;
+  }
+
+  /**
+   * Reveals the next stage of the current hint
+   */
+  advanceHint(): Hint | null {
+    if (!this.activeHint || this.activeHint.stage === 3) return this.activeHint;
+
+    this.setActiveHint({ ...this.activeHint, stage: (this.activeHint.stage + 1) as HintStage });
+    return this.activeHint;
+  }
+
+  /**
+   * Carries out the current hint as an undoable move
+   */
+  applyHint(): boolean {
+    const hint = this.activeHint;
+    if (!this.gameData || !hint || this.gameState !== 'playing') return false;
+
+    this.setActiveHint(null);
+    switch (hint.kind) {
+      case 'mistake':
+        return this.makeMove(hint.position.row, hint.position.col, null);
+      case 'reveal':
+        return this.revealCell(hint.placement.position.row, hint.placement.position.col);
+      case 'technique': {
+        const { placements, eliminations } = hint.step;
+        if (placements.length > 0) {
+          return this.revealCell(placements[0].position.row, placements[0].position.col);
+        }
+        return this.applyEliminations(eliminations);
+      }
+    }
+  }
+
+  dismissHint(): void {
+    this.setActiveHint(null);
+  }
+
+  /**
+   * Removes eliminated candidates from the hint candidates the step was
+   * found in and writes the result into the player's notes, so cells
+   * without usable notes get them and the next hint moves on
+   */
+  private applyEliminations(eliminations: Candidate[]): boolean {
+    if (!this.gameData) return false;
+
+    const { grid, solution, notes } = this.gameData;
+    const candidates = SudokuEngine.getHintCandidates(grid, solution, notes, this.constraints!);
+
+    // Group by cell so several eliminations in one cell become one change
+    const changes = new Map<string, NoteChange>();
+    for (const { position, value } of eliminations) {
+      const key = `${position.row}-${position.col}`;
+      const change = changes.get(key) ?? {
+        position,
+        previousNotes: notes[position.row][position.col],
+        newNotes: candidates[position.row][position.col],
+      };
+      if (change.newNotes.includes(value)) {
+        change.newNotes = change.newNotes.filter(note => note !== value);
+        changes.set(key, change);
+      }
+    }
+
+    const noteChanges = [...changes.values()];
+    if (noteChanges.length === 0) return false;
+
+    this.commitMove({
+      position: noteChanges[0].position,
+      previousValue: null,
+      newValue: null,
+      timestamp: Date.now(),
+      kind: 'hint',
+      noteChanges,
+    });
+    return true;
+  }
+
+  private setActiveHint(hint: Hint | null): void {
+    this.activeHint = hint;
+    this.onHintUpdate?.(hint);
   }
 
   /**
@@ -199,12 +774,36 @@ export class GameManager {
       return { isValid: false, conflicts: [], isCompleted: false };
     }
 
-    const result = SudokuEngine.validateGrid(this.gameData.grid);
+    const result = SudokuEngine.validateGrid(this.gameData.grid, this.gameData.cages, this.constraints!);
+    // With checking off, wrong entries are only marked once every cell is filled
+    if (this.errorCheckMode === 'solution' || (this.errorCheckMode === 'off' && this.isBoardFull())) {
+      result.wrongCells = SudokuEngine.findWrongCells(this.gameData.grid, this.gameData.solution);
+    }
     this.onValidationUpdate?.(result);
     
     return result;
   }
 
+  private isBoardFull(): boolean {
+    const { grid } = this.gameData!;
+    return grid.every((rowValues, row) => rowValues.every((value, col) =>
+      value !== null || !Constraints.isPlayable(this.constraints!, grid.length, row, col)
+    ));
+  }
+
+  /**
+   * Remembers the most helpful error check mode used on the game, so a game
+   * checked against the solution at any point counts as assisted
+   */
+  private recordErrorCheckMode(): void {
+    if (!this.gameData) return;
+
+    const used = this.gameData.errorCheckMode ?? 'conflicts';
+    if (ERROR_CHECK_MODES.indexOf(this.errorCheckMode) > ERROR_CHECK_MODES.indexOf(used)) {
+      this.gameData.errorCheckMode = this.errorCheckMode;
+    }
+  }
+
   /**
    * Completes the current game
    */
@@ -258,7 +857,15 @@ export class GameManager {
    */
   private getCurrentTimeElapsed(): number {
     if (this.startTime === 0) return 0;
-    return Math.floor((Date.now() - this.startTime) / 1000);
+
+    // The clock stands still while paused
+    const now = this.pausedTime > 0 ? this.pausedTime : Date.now();
+    return Math.floor((now - this.startTime) / 1000);
+  }
+
+  // Every cell but the holes between the grids of a Samurai board
+  private isPlayable(row: number, col: number): boolean {
+    return Constraints.isPlayable(this.constraints!, this.gameData!.grid.length, row, col);
   }
 
   /**
@@ -283,6 +890,10 @@ export class GameManager {
     return this.gameData?.grid || null;
   }
 
+  getNotes(): GameData['notes'] | null {
+    return this.gameData?.notes || null;
+  }
+
   getOriginalGrid(): GameData['originalGrid'] | null {
     return this.gameData?.originalGrid || null;
   }
@@ -295,6 +906,46 @@ export class GameManager {
     return this.gameData?.difficulty || null;
   }
 
+  getGrade(): PuzzleGrade | null {
+    return this.gameData?.grade || null;
+  }
+
+  getSeed(): number | null {
+    return this.gameData?.seed ?? null;
+  }
+
+  getDailyChallenge(): DailyChallengeInfo | null {
+    return this.gameData?.daily || null;
+  }
+
+  getCages(): Cage[] | null {
+    return this.gameData?.cages ?? null;
+  }
+
+  getRegions(): RegionMap | null {
+    return this.gameData?.regions ?? null;
+  }
+
+  getLayout(): GridLayout | null {
+    return this.gameData?.layout ?? null;
+  }
+
+  getConstraints(): Constraint[] | null {
+    return this.gameData ? this.constraints : null;
+  }
+
+  /**
+   * How many values the game uses; on a Samurai board, fewer than its size
+   */
+  getDigitCount(): number {
+    if (!this.gameData) return GridShape.DEFAULT_SIZE;
+    return Constraints.getDigitCount(this.constraints!, this.gameData.grid.length);
+  }
+
+  getSymbols(): SymbolSet {
+    return this.gameData?.symbols ?? 'digits';
+  }
+
   getTimeElapsed(): number {
     return this.gameData?.timeElapsed || 0;
   }
@@ -307,12 +958,18 @@ export class GameManager {
     return this.gameData ? this.gameData.moveHistory.length > 0 : false;
   }
 
+  canRedo(): boolean {
+    return this.gameData ? this.gameData.redoHistory.length > 0 : false;
+  }
+
   /**
    * Cleanup method
    */
   dispose(): void {
+    this.saveProgress();
     this.stopTimer();
     this.gameData = null;
+    this.constraints = null;
     this.gameState = 'menu';
   }
 }
\ No newline at end of file
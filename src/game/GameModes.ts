@@ -0,0 +1,62 @@
+import { GameData, GameMode, GridSize, Variant } from '../types/game';
+import { GridShape } from './GridShape';
+import { JigsawRegions } from './JigsawRegions';
+import { SamuraiLayout } from './SamuraiLayout';
+
+/**
+ * The kinds of puzzle statistics and best times are kept for. Results are
+ * only compared within a mode, since a 4x4 grid or a Killer puzzle plays
+ * nothing like a classic 9x9 one of the same difficulty.
+ */
+export class GameModes {
+  static readonly CLASSIC: GameMode = { size: GridShape.DEFAULT_SIZE, variant: 'classic' };
+
+  // Every mode the menu can start, classic first
+  static readonly ALL: GameMode[] = (['classic', 'killer', 'jigsaw', 'samurai'] as Variant[]).flatMap(variant =>
+    GameModes.getSizes(variant).map(size => ({ size, variant }))
+  );
+
+  private static readonly VARIANT_NAMES: Record<Variant, string> = {
+    classic: 'Classic',
+    killer: 'Killer',
+    jigsaw: 'Jigsaw',
+    samurai: 'Samurai',
+  };
+
+  /**
+   * Gets the grid sizes a variant is played at
+   */
+  static getSizes(variant: Variant): GridSize[] {
+    switch (variant) {
+      case 'jigsaw': return GridShape.SIZES.filter(size => size <= JigsawRegions.MAX_SIZE);
+      case 'samurai': return [SamuraiLayout.GRID_SIZE];
+      default: return GridShape.SIZES;
+    }
+  }
+
+  /**
+   * Gets the mode of a game; Samurai games count by the size of their grids
+   */
+  static of(game: Pick<GameData, 'grid' | 'cages' | 'regions' | 'layout'>): GameMode {
+    const variant: Variant = game.cages ? 'killer'
+      : game.regions ? 'jigsaw'
+      : game.layout ? 'samurai'
+      : 'classic';
+    return { size: game.layout?.gridSize ?? game.grid.length as GridSize, variant };
+  }
+
+  /**
+   * Gets the key results for a mode are stored under, such as 'classic-9'
+   */
+  static getKey({ size, variant }: GameMode): string {
+    return `${variant}-${size}`;
+  }
+
+  static getLabel({ size, variant }: GameMode): string {
+    return `${size}×${size} ${this.VARIANT_NAMES[variant]}`;
+  }
+
+  static isSame(a: GameMode, b: GameMode): boolean {
+    return a.size === b.size && a.variant === b.variant;
+  }
+}
@@ -0,0 +1,66 @@
+import { GameHistoryEntry, Move, PlayEvent, ReplayStep } from '../types/game';
+import { SudokuEngine } from './SudokuEngine';
+
+export class GameReplay {
+  /**
+   * Gets a game's record of play. Games from before play was recorded only
+   * have the moves still on the board.
+   */
+  static getPlayLog(game: GameHistoryEntry): PlayEvent[] {
+    return game.playLog ?? game.moveHistory.map(move => ({ action: 'move', move }));
+  }
+
+  /**
+   * Plays a game's record through from its givens, keeping the board after
+   * every event. Undos and redos work the undo and redo stacks the same way
+   * the game did, so a new move drops the undone moves it replaces.
+   */
+  static buildSteps(game: GameHistoryEntry): ReplayStep[] {
+    const grid = SudokuEngine.cloneGrid(game.originalGrid);
+    const applied: Move[] = [];
+    let undone: Move[] = [];
+    const steps: ReplayStep[] = [];
+
+    for (const event of this.getPlayLog(game)) {
+      const move = event.action === 'move' ? event.move
+        : event.action === 'undo' ? applied.pop()
+        : undone.pop();
+      // Skip events a damaged record can't back up
+      if (!move) continue;
+
+      if (event.action === 'undo') {
+        undone.push(move);
+      } else {
+        applied.push(move);
+        if (event.action === 'move') undone = [];
+      }
+
+      // Note-only moves leave the value untouched, as in the game
+      const { row, col } = move.position;
+      const value = event.action === 'undo' ? move.previousValue : move.newValue;
+      if (move.previousValue !== move.newValue) {
+        grid[row][col] = value;
+      }
+
+      steps.push({
+        event,
+        move,
+        timestamp: event.action === 'move' ? move.timestamp : event.timestamp,
+        grid: SudokuEngine.cloneGrid(grid),
+        isUndone: false,
+        isWrong: event.action !== 'undo'
+          && move.newValue !== move.previousValue
+          && value !== null
+          && value !== game.solution[row][col],
+      });
+    }
+
+    // Moves missing from the board at the end were taken back for good
+    const kept = new Set(applied);
+    for (const step of steps) {
+      step.isUndone = step.event.action === 'move' && !kept.has(step.move);
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,133 @@
+import { BoxShape, GridSize, House, Position, RegionMap, SymbolSet } from '../types/game';
+
+/**
+ * Geometry and symbols for the supported grid sizes. A grid's size is its
+ * row count, and each size has exactly one box shape, so everything here can
+ * be derived from the grid itself. Where a Jigsaw region map is passed, its
+ * regions take the place of the boxes.
+ */
+export class GridShape {
+  static readonly SIZES: GridSize[] = [4, 6, 9, 12, 16];
+  static readonly DEFAULT_SIZE: GridSize = 9;
+
+  private static readonly BOX_SHAPES: Record<GridSize, BoxShape> = {
+    4: { rows: 2, cols: 2 },
+    6: { rows: 2, cols: 3 },
+    9: { rows: 3, cols: 3 },
+    12: { rows: 3, cols: 4 },
+    16: { rows: 4, cols: 4 },
+  };
+
+  private static readonly LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  private static readonly HEX = '0123456789ABCDEF';
+
+  static isGridSize(size: number): size is GridSize {
+    return (this.SIZES as number[]).includes(size);
+  }
+
+  /**
+   * Gets the box dimensions for a grid size
+   */
+  static getBoxShape(size: number): BoxShape {
+    if (!this.isGridSize(size)) {
+      throw new Error(`Unsupported grid size: ${size}`);
+    }
+    return this.BOX_SHAPES[size];
+  }
+
+  /**
+   * Gets the index of the box containing a cell, counting boxes row by row
+   */
+  static getBoxIndex(row: number, col: number, size: number): number {
+    const box = this.getBoxShape(size);
+    return Math.floor(row / box.rows) * (size / box.cols) + Math.floor(col / box.cols);
+  }
+
+  /**
+   * Gets the top-left cell of a box
+   */
+  static getBoxOrigin(boxIndex: number, size: number): Position {
+    const box = this.getBoxShape(size);
+    const boxesPerRow = size / box.cols;
+    return {
+      row: Math.floor(boxIndex / boxesPerRow) * box.rows,
+      col: (boxIndex % boxesPerRow) * box.cols,
+    };
+  }
+
+  /**
+   * Gets the region of a cell: its box, or its region in a region map
+   */
+  static getRegionIndex(row: number, col: number, size: number, regions?: RegionMap): number {
+    return regions ? regions[row][col] : this.getBoxIndex(row, col, size);
+  }
+
+  /**
+   * Gets the region map of the standard boxes
+   */
+  static getBoxRegions(size: number): RegionMap {
+    return Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => this.getBoxIndex(row, col, size))
+    );
+  }
+
+  /**
+   * Gets the top-left cells of the Windoku windows: box-sized areas set one
+   * cell in from the grid's edge, one cell apart
+   */
+  static getWindowOrigins(size: number): Position[] {
+    const box = this.getBoxShape(size);
+    const starts = (span: number) =>
+      Array.from({ length: Math.floor(size / (span + 1)) }, (_, i) => 1 + i * (span + 1));
+    return starts(box.rows).flatMap(row => starts(box.cols).map(col => ({ row, col })));
+  }
+
+  /**
+   * Gets the cells of a house (a box is a region, given a region map)
+   */
+  static getHouseCells(house: House, size: number, regions?: RegionMap): Position[] {
+    if (house.type === 'box' && regions) {
+      const cells: Position[] = [];
+      regions.forEach((regionRow, row) => regionRow.forEach((region, col) => {
+        if (region === house.index) cells.push({ row, col });
+      }));
+      return cells;
+    }
+
+    const box = this.getBoxShape(size);
+    const origin = house.type === 'box' ? this.getBoxOrigin(house.index, size)
+      : house.type === 'window' ? this.getWindowOrigins(size)[house.index]
+      : { row: 0, col: 0 };
+
+    return Array.from({ length: size }, (_, i) => {
+      switch (house.type) {
+        case 'row': return { row: house.index, col: i };
+        case 'column': return { row: i, col: house.index };
+        case 'diagonal': return { row: i, col: house.index === 0 ? i : size - 1 - i };
+        case 'box':
+        case 'window': return {
+          row: origin.row + Math.floor(i / box.cols),
+          col: origin.col + (i % box.cols),
+        };
+      }
+    });
+  }
+
+  /**
+   * Gets the text drawn for a value
+   */
+  static getSymbol(value: number, symbols: SymbolSet = 'digits'): string {
+    switch (symbols) {
+      case 'hex': return this.HEX[value - 1] ?? '';
+      case 'letters': return this.LETTERS[value - 1] ?? '';
+      case 'digits': return value <= 9 ? value.toString() : this.LETTERS[value - 10] ?? '';
+    }
+  }
+
+  /**
+   * Gets the symbol sets offered for a grid size; the first is the default
+   */
+  static getSymbolSets(size: number): SymbolSet[] {
+    return size === 16 ? ['hex', 'letters'] : ['digits'];
+  }
+}
@@ -0,0 +1,83 @@
+import { Position, RegionMap } from '../types/game';
+import { GridShape } from './GridShape';
+import { SeededRandom } from '../utils/Random';
+
+/**
+ * Builds irregular region layouts for Jigsaw puzzles. Layouts start from the
+ * standard boxes and are reshaped by trading cells across region borders,
+ * so every region keeps exactly one cell per value and stays connected.
+ */
+export class JigsawRegions {
+  // 16x16 layouts rarely solve within the search budget, so generation stalls
+  static readonly MAX_SIZE = 12;
+
+  private static readonly TRADES_PER_CELL = 4;
+
+  /**
+   * Generates a random layout of connected regions of equal size
+   */
+  static generate(size: number, random: SeededRandom): RegionMap {
+    const regions = GridShape.getBoxRegions(size);
+    const trades = size * size * this.TRADES_PER_CELL;
+
+    for (let i = 0; i < trades; i++) {
+      // A cell on a border moves into the neighbouring region...
+      const cell = { row: random.nextInt(size), col: random.nextInt(size) };
+      const from = regions[cell.row][cell.col];
+      const across = this.getNeighbours(cell, size).filter(({ row, col }) => regions[row][col] !== from);
+      if (across.length === 0) continue;
+
+      const target = across[random.nextInt(across.length)];
+      const to = regions[target.row][target.col];
+
+      // ...and some other cell of that region bordering the first moves back
+      const returns = this.getRegionCells(regions, to).filter(other =>
+        !(other.row === target.row && other.col === target.col)
+        && this.getNeighbours(other, size).some(({ row, col }) =>
+          regions[row][col] === from && (row !== cell.row || col !== cell.col)
+        )
+      );
+      if (returns.length === 0) continue;
+      const back = returns[random.nextInt(returns.length)];
+
+      regions[cell.row][cell.col] = to;
+      regions[back.row][back.col] = from;
+      if (!this.isConnected(regions, from) || !this.isConnected(regions, to)) {
+        regions[cell.row][cell.col] = from;
+        regions[back.row][back.col] = to;
+      }
+    }
+
+    return regions;
+  }
+
+  private static isConnected(regions: RegionMap, region: number): boolean {
+    const cells = this.getRegionCells(regions, region);
+    if (cells.length === 0) return false;
+
+    const reached = [cells[0]];
+    const isReached = ({ row, col }: Position) => reached.some(cell => cell.row === row && cell.col === col);
+    for (let i = 0; i < reached.length; i++) {
+      for (const next of this.getNeighbours(reached[i], regions.length)) {
+        if (regions[next.row][next.col] === region && !isReached(next)) {
+          reached.push(next);
+        }
+      }
+    }
+
+    return reached.length === cells.length;
+  }
+
+  private static getRegionCells(regions: RegionMap, region: number): Position[] {
+    return GridShape.getHouseCells({ type: 'box', index: region }, regions.length, regions);
+  }
+
+  private static getNeighbours({ row, col }: Position, size: number): Position[] {
+    return [
+      { row: row - 1, col },
+      { row: row + 1, col },
+      { row, col: col - 1 },
+      { row, col: col + 1 },
+    ].filter(cell => cell.row >= 0 && cell.row < size && cell.col >= 0 && cell.col < size);
+  }
+}
@@ -0,0 +1,198 @@
+import { Cage, Difficulty, Position, SudokuGrid } from '../types/game';
+import { SeededRandom } from '../utils/Random';
+
+/**
+ * Builds and checks Killer Sudoku cages. Cages are connected groups of
+ * cells whose digits add up to the cage sum without repeating.
+ */
+export class KillerCages {
+  // Bigger cages have more ways to make their sum, so they are harder
+  private static readonly MAX_CAGE_SIZE: Record<Difficulty, number> = {
+    easy: 3,
+    medium: 4,
+    hard: 5,
+  };
+
+  /**
+   * Covers a solved grid with random cages; no cage repeats a digit
+   */
+  static build(solution: SudokuGrid, difficulty: Difficulty, random: SeededRandom): Cage[] {
+    const size = solution.length;
+    const maxCageSize = this.MAX_CAGE_SIZE[difficulty];
+    const cageOf: number[][] = solution.map(row => row.map(() => -1));
+    const groups: Position[][] = [];
+
+    const order = random.shuffle(
+      Array.from({ length: size * size }, (_, i) => ({ row: Math.floor(i / size), col: i % size }))
+    );
+
+    for (const start of order) {
+      if (cageOf[start.row][start.col] !== -1) continue;
+
+      const targetSize = 2 + random.nextInt(maxCageSize - 1);
+      const group = [start];
+      const digits = new Set([solution[start.row][start.col]]);
+      cageOf[start.row][start.col] = groups.length;
+
+      while (group.length < targetSize) {
+        const options = group.flatMap(cell => this.getNeighbours(cell, size)).filter(cell =>
+          cageOf[cell.row][cell.col] === -1 && !digits.has(solution[cell.row][cell.col])
+        );
+        if (options.length === 0) break;
+
+        const next = options[random.nextInt(options.length)];
+        group.push(next);
+        digits.add(solution[next.row][next.col]);
+        cageOf[next.row][next.col] = groups.length;
+      }
+
+      groups.push(group);
+    }
+
+    return this.absorbSingletons(groups, solution).map(cells => this.createCage(cells, solution));
+  }
+
+  /**
+   * Splits a cage in two around one of its cells, so the cage sums pin down
+   * more of the solution. Parts that come out disconnected become cages of
+   * their own, and single cells join a neighbouring cage unless allowed.
+   */
+  static split(cages: Cage[], cell: Position, solution: SudokuGrid, allowSingletons: boolean = false): Cage[] {
+    const index = this.findCageIndex(cages, cell);
+    const { cells } = cages[index];
+    if (cells.length === 1) return cages;
+
+    // Grow half the cage outwards from the cell
+    const part: Position[] = [cell];
+    for (let i = 0; i < part.length && part.length < Math.floor(cells.length / 2); i++) {
+      for (const next of this.getNeighbours(part[i], solution.length)) {
+        if (part.length >= Math.floor(cells.length / 2)) break;
+        if (this.contains(cells, next) && !this.contains(part, next)) {
+          part.push(next);
+        }
+      }
+    }
+
+    const rest = cells.filter(other => !this.contains(part, other));
+    const groups = [
+      ...cages.slice(0, index).map(cage => cage.cells),
+      ...this.getConnectedGroups(part),
+      ...this.getConnectedGroups(rest),
+      ...cages.slice(index + 1).map(cage => cage.cells),
+    ];
+    return (allowSingletons ? groups : this.absorbSingletons(groups, solution))
+      .map(group => this.createCage(group, solution));
+  }
+
+  /**
+   * Finds the cages whose filled digits repeat, overshoot the sum, or miss
+   * it once every cell is filled
+   */
+  static findBrokenCages(grid: SudokuGrid, cages: Cage[]): number[] {
+    const broken: number[] = [];
+
+    cages.forEach((cage, index) => {
+      const values = cage.cells
+        .map(({ row, col }) => grid[row][col])
+        .filter((value): value is number => value !== null);
+      const total = values.reduce((sum, value) => sum + value, 0);
+      const isFull = values.length === cage.cells.length;
+
+      if (new Set(values).size < values.length || total > cage.sum || (isFull && total !== cage.sum)) {
+        broken.push(index);
+      }
+    });
+
+    return broken;
+  }
+
+  /**
+   * Gets the index of the cage containing a cell, or -1
+   */
+  static findCageIndex(cages: Cage[], cell: Position): number {
+    return cages.findIndex(cage => this.contains(cage.cells, cell));
+  }
+
+  /**
+   * Gets the cell a cage's sum is drawn in: its top-left cell
+   */
+  static getLabelCell(cage: Cage): Position {
+    return cage.cells.reduce((first, cell) =>
+      cell.row < first.row || (cell.row === first.row && cell.col < first.col) ? cell : first
+    );
+  }
+
+  /**
+   * Merges each single-cell group into the smallest neighbouring group that
+   * lacks its digit, since a one-cell cage just gives its digit away
+   */
+  private static absorbSingletons(groups: Position[][], solution: SudokuGrid): Position[][] {
+    const merged = groups.map(group => [...group]);
+
+    for (let i = 0; i < merged.length; i++) {
+      if (merged[i].length !== 1) continue;
+
+      const [cell] = merged[i];
+      const digit = solution[cell.row][cell.col];
+      let target = -1;
+      for (const next of this.getNeighbours(cell, solution.length)) {
+        const j = merged.findIndex(group => this.contains(group, next));
+        const hasDigit = merged[j].some(({ row, col }) => solution[row][col] === digit);
+        if (j !== i && !hasDigit && (target === -1 || merged[j].length < merged[target].length)) {
+          target = j;
+        }
+      }
+
+      if (target !== -1) {
+        merged[target].push(cell);
+        merged[i] = [];
+      }
+    }
+
+    return merged.filter(group => group.length > 0);
+  }
+
+  private static createCage(cells: Position[], solution: SudokuGrid): Cage {
+    return {
+      cells,
+      sum: cells.reduce((sum, { row, col }) => sum + solution[row][col]!, 0),
+    };
+  }
+
+  private static getConnectedGroups(cells: Position[]): Position[][] {
+    const groups: Position[][] = [];
+    const seen: Position[] = [];
+
+    for (const start of cells) {
+      if (this.contains(seen, start)) continue;
+
+      const group = [start];
+      seen.push(start);
+      for (let i = 0; i < group.length; i++) {
+        for (const next of cells) {
+          const isNeighbour = Math.abs(next.row - group[i].row) + Math.abs(next.col - group[i].col) === 1;
+          if (isNeighbour && !this.contains(seen, next)) {
+            group.push(next);
+            seen.push(next);
+          }
+        }
+      }
+      groups.push(group);
+    }
+
+    return groups;
+  }
+
+  private static getNeighbours({ row, col }: Position, size: number): Position[] {
+    return [
+      { row: row - 1, col },
+      { row: row + 1, col },
+      { row, col: col - 1 },
+      { row, col: col + 1 },
+    ].filter(cell => cell.row >= 0 && cell.row < size && cell.col >= 0 && cell.col < size);
+  }
+
+  private static contains(cells: Position[], cell: Position): boolean {
+    return cells.some(other => other.row === cell.row && other.col === cell.col);
+  }
+}
@@ -0,0 +1,753 @@
+import {
+  Candidate,
+  Constraint,
+  Difficulty,
+  Digit,
+  House,
+  LogicalSolveResult,
+  NoteGrid,
+  Position,
+  PuzzleGrade,
+  SolveStep,
+  SolvingTechnique,
+  SudokuGrid,
+} from '../types/game';
+import { Constraints } from './Constraints';
+
+type HouseCells = {
+  house: House;
+  cells: number[];
+};
+
+// Houses, peers and non-consecutive neighbours of every cell index for one set of rules
+type Topology = {
+  size: number;
+  cellCount: number;
+  digits: number;
+  playable: boolean[]; // False for the holes of a multi-grid board
+  playableCount: number;
+  allCandidates: number;
+  houses: HouseCells[];
+  peers: number[][];
+  peerSets: Set<number>[];
+  nonConsecutive: number[][];
+};
+
+/**
+ * Working state of the solver: placed values (0 for empty) and a candidate
+ * bitmask per cell, where bit (d - 1) means digit d is still possible.
+ */
+type SolverState = {
+  topology: Topology;
+  values: number[];
+  candidates: number[];
+};
+
+export class LogicalSolver {
+  private static readonly TOPOLOGIES = new WeakMap<Constraint[], Topology>();
+  // Fills the holes of a multi-grid board; never empty, and no house holds one
+  private static readonly HOLE = -1;
+
+  private static readonly TECHNIQUE_NAMES: Record<SolvingTechnique, string> = {
+    nakedSingle: 'Naked Single',
+    hiddenSingle: 'Hidden Single',
+    pointing: 'Pointing',
+    claiming: 'Claiming',
+    nakedPair: 'Naked Pair',
+    hiddenPair: 'Hidden Pair',
+    nakedTriple: 'Naked Triple',
+    hiddenTriple: 'Hidden Triple',
+    xWing: 'X-Wing',
+    xyWing: 'XY-Wing',
+    swordfish: 'Swordfish',
+    simpleColoring: 'Simple Coloring',
+  };
+
+  // Cost of a single application of each technique when scoring a puzzle
+  private static readonly TECHNIQUE_WEIGHTS: Record<SolvingTechnique, number> = {
+    nakedSingle: 1,
+    hiddenSingle: 2,
+    pointing: 5,
+    claiming: 5,
+    nakedPair: 8,
+    hiddenPair: 10,
+    nakedTriple: 12,
+    hiddenTriple: 15,
+    xWing: 20,
+    xyWing: 25,
+    swordfish: 30,
+    simpleColoring: 30,
+  };
+
+  // Lowest difficulty at which each technique may be required
+  private static readonly TECHNIQUE_DIFFICULTY: Record<SolvingTechnique, Difficulty> = {
+    nakedSingle: 'easy',
+    hiddenSingle: 'easy',
+    pointing: 'medium',
+    claiming: 'medium',
+    nakedPair: 'medium',
+    hiddenPair: 'medium',
+    nakedTriple: 'medium',
+    hiddenTriple: 'medium',
+    xWing: 'hard',
+    xyWing: 'hard',
+    swordfish: 'hard',
+    simpleColoring: 'hard',
+  };
+
+  // Step scores at which a 9x9 puzzle is long enough to count as the next
+  // band; other sizes scale them by their number of cells
+  private static readonly SCORE_THRESHOLDS = {
+    medium: 75,
+    hard: 120,
+  };
+
+  /**
+   * Solves a puzzle the way a person would, one named technique at a time.
+   * Stops with status 'requiresGuessing' when no known technique applies.
+   */
+  static solve(grid: SudokuGrid, constraints?: Constraint[]): LogicalSolveResult {
+    const state = this.createState(grid, constraints);
+    const steps: SolveStep[] = [];
+
+    if (!state || !this.isConsistent(state)) {
+      return { status: 'invalid', steps, grid: this.toGrid(state, grid) };
+    }
+
+    let step = this.findStep(state);
+    while (step) {
+      steps.push(step);
+      this.applyStep(state, step);
+
+      if (!this.isConsistent(state)) {
+        return { status: 'invalid', steps, grid: this.toGrid(state, grid) };
+      }
+      step = this.findStep(state);
+    }
+
+    const solved = state.values.every(value => value !== 0);
+    return {
+      status: solved ? 'solved' : 'requiresGuessing',
+      steps,
+      grid: this.toGrid(state, grid),
+    };
+  }
+
+  /**
+   * Finds the easiest logical step available in the current grid. Known
+   * candidates, such as the player's notes, narrow what the rules allow so
+   * eliminations already made aren't found again.
+   */
+  static getNextStep(grid: SudokuGrid, constraints?: Constraint[], candidates?: NoteGrid): SolveStep | null {
+    const state = this.createState(grid, constraints, candidates);
+    if (!state || !this.isConsistent(state)) return null;
+    return this.findStep(state);
+  }
+
+  /**
+   * Grades a puzzle by the hardest technique it needs and a weighted step score
+   */
+  static gradePuzzle(grid: SudokuGrid, constraints?: Constraint[]): PuzzleGrade {
+    const { status, steps } = this.solve(grid, constraints);
+
+    let hardestTechnique: SolvingTechnique | null = null;
+    let score = 0;
+    for (const { technique } of steps) {
+      score += this.TECHNIQUE_WEIGHTS[technique];
+      if (!hardestTechnique || this.TECHNIQUE_WEIGHTS[technique] > this.TECHNIQUE_WEIGHTS[hardestTechnique]) {
+        hardestTechnique = technique;
+      }
+    }
+
+    const requiresGuessing = status !== 'solved';
+    const thresholdScale = this.getTopology(grid.length, constraints).playableCount / 81;
+    let difficulty: Difficulty = hardestTechnique ? this.TECHNIQUE_DIFFICULTY[hardestTechnique] : 'easy';
+    if (requiresGuessing || score >= this.SCORE_THRESHOLDS.hard * thresholdScale) {
+      difficulty = 'hard';
+    } else if (difficulty === 'easy' && score >= this.SCORE_THRESHOLDS.medium * thresholdScale) {
+      difficulty = 'medium';
+    }
+
+    return { difficulty, hardestTechnique, score, requiresGuessing };
+  }
+
+  /**
+   * Gets the display name of a technique
+   */
+  static getTechniqueName(technique: SolvingTechnique): string {
+    return this.TECHNIQUE_NAMES[technique];
+  }
+
+  /**
+   * Tries each technique from easiest to hardest and returns the first hit
+   */
+  private static findStep(state: SolverState): SolveStep | null {
+    return (
+      this.findNakedSingle(state) ??
+      this.findHiddenSingle(state) ??
+      this.findPointing(state) ??
+      this.findClaiming(state) ??
+      this.findNakedSubset(state, 2) ??
+      this.findHiddenSubset(state, 2) ??
+      this.findNakedSubset(state, 3) ??
+      this.findHiddenSubset(state, 3) ??
+      this.findFish(state, 2) ??
+      this.findXYWing(state) ??
+      this.findFish(state, 3) ??
+      this.findSimpleColoring(state)
+    );
+  }
+
+  /**
+   * State setup and bookkeeping
+   */
+  private static createState(grid: SudokuGrid, constraints?: Constraint[], known?: NoteGrid): SolverState | null {
+    const topology = this.getTopology(grid.length, constraints);
+    const { size, cellCount, playable, peers, nonConsecutive, allCandidates } = topology;
+    const values: number[] = [];
+    const candidates: number[] = [];
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        values.push(grid[row][col] ?? 0);
+        candidates.push(0);
+      }
+    }
+
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (!playable[cell]) {
+        values[cell] = this.HOLE;
+        continue;
+      }
+      if (values[cell] !== 0) {
+        // Givens that break a rule make the puzzle invalid before we start
+        if (peers[cell].some(peer => values[peer] === values[cell])
+          || nonConsecutive[cell].some(neighbour =>
+            values[neighbour] !== 0 && Math.abs(values[neighbour] - values[cell]) === 1
+          )) {
+          return null;
+        }
+        continue;
+      }
+
+      let mask = allCandidates;
+      for (const peer of peers[cell]) {
+        if (values[peer] !== 0) {
+          mask &= ~this.bit(values[peer]);
+        }
+      }
+      for (const neighbour of nonConsecutive[cell]) {
+        if (values[neighbour] !== 0) {
+          mask &= ~this.neighbouringBits(values[neighbour]);
+        }
+      }
+      if (known) {
+        const { row, col } = this.toPosition(cell, size);
+        mask &= known[row][col].reduce((bits, digit) => bits | this.bit(digit), 0);
+      }
+      candidates[cell] = mask;
+    }
+
+    return { topology, values, candidates };
+  }
+
+  private static toGrid(state: SolverState | null, fallback: SudokuGrid): SudokuGrid {
+    if (!state) return fallback.map(row => [...row]);
+
+    const { size } = state.topology;
+    return Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => {
+        const value = state.values[row * size + col];
+        return value === 0 || value === this.HOLE ? null : value;
+      })
+    );
+  }
+
+  private static applyStep(state: SolverState, step: SolveStep): void {
+    for (const { position, value } of step.placements) {
+      const cell = this.toCell(position, state.topology.size);
+      state.values[cell] = value;
+      state.candidates[cell] = 0;
+      for (const peer of state.topology.peers[cell]) {
+        state.candidates[peer] &= ~this.bit(value);
+      }
+      for (const neighbour of state.topology.nonConsecutive[cell]) {
+        state.candidates[neighbour] &= ~this.neighbouringBits(value);
+      }
+    }
+
+    for (const { position, value } of step.eliminations) {
+      state.candidates[this.toCell(position, state.topology.size)] &= ~this.bit(value);
+    }
+  }
+
+  /**
+   * A state is consistent while every empty cell has a candidate and every
+   * missing digit still has somewhere to go in each house
+   */
+  private static isConsistent(state: SolverState): boolean {
+    for (let cell = 0; cell < state.topology.cellCount; cell++) {
+      if (state.values[cell] === 0 && state.candidates[cell] === 0) {
+        return false;
+      }
+    }
+
+    for (const { cells } of state.topology.houses) {
+      let covered = 0;
+      for (const cell of cells) {
+        covered |= state.values[cell] !== 0 ? this.bit(state.values[cell]) : state.candidates[cell];
+      }
+      if (covered !== state.topology.allCandidates) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Singles
+   */
+  private static findNakedSingle(state: SolverState): SolveStep | null {
+    for (let cell = 0; cell < state.topology.cellCount; cell++) {
+      const mask = state.candidates[cell];
+      if (state.values[cell] === 0 && this.countBits(mask) === 1) {
+        const value = this.digitsOf(mask)[0];
+        const placement = { position: this.toPosition(cell, state.topology.size), value };
+        return this.createStep(state, 'nakedSingle', [], [cell], [placement], []);
+      }
+    }
+    return null;
+  }
+
+  private static findHiddenSingle(state: SolverState): SolveStep | null {
+    for (const { house, cells } of state.topology.houses) {
+      for (let digit = 1; digit <= state.topology.digits; digit++) {
+        const spots = this.cellsWithDigit(state, cells, digit);
+        if (spots.length === 1) {
+          const placement = { position: this.toPosition(spots[0], state.topology.size), value: digit };
+          return this.createStep(state, 'hiddenSingle', [house], spots, [placement], []);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Locked candidates: a digit confined to one line inside a box (pointing),
+   * or to one box inside a line (claiming)
+   */
+  private static findPointing(state: SolverState): SolveStep | null {
+    for (const { house, cells } of state.topology.houses) {
+      if (house.type !== 'box') continue;
+
+      for (let digit = 1; digit <= state.topology.digits; digit++) {
+        const spots = this.cellsWithDigit(state, cells, digit);
+        if (spots.length < 2) continue;
+
+        for (const line of this.linesContaining(state, spots)) {
+          const eliminations = this.collectEliminations(
+            state,
+            line.cells.filter(cell => !cells.includes(cell)),
+            this.bit(digit)
+          );
+          if (eliminations.length > 0) {
+            return this.createStep(state, 'pointing', [house, line.house], spots, [], eliminations);
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private static findClaiming(state: SolverState): SolveStep | null {
+    for (const { house, cells } of state.topology.houses) {
+      if (house.type === 'box') continue;
+
+      for (let digit = 1; digit <= state.topology.digits; digit++) {
+        const spots = this.cellsWithDigit(state, cells, digit);
+        if (spots.length < 2) continue;
+
+        const box = state.topology.houses.find(
+          candidate => candidate.house.type === 'box' && spots.every(cell => candidate.cells.includes(cell))
+        );
+        if (!box) continue;
+
+        const eliminations = this.collectEliminations(
+          state,
+          box.cells.filter(cell => !cells.includes(cell)),
+          this.bit(digit)
+        );
+        if (eliminations.length > 0) {
+          return this.createStep(state, 'claiming', [house, box.house], spots, [], eliminations);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Naked pairs/triples: N cells in a house that share exactly N candidates
+   */
+  private static findNakedSubset(state: SolverState, size: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = size === 2 ? 'nakedPair' : 'nakedTriple';
+
+    for (const { house, cells } of state.topology.houses) {
+      const pool = cells.filter(cell => {
+        const count = this.countBits(state.candidates[cell]);
+        return state.values[cell] === 0 && count >= 2 && count <= size;
+      });
+
+      for (const subset of this.combinations(pool, size)) {
+        const union = subset.reduce((mask, cell) => mask | state.candidates[cell], 0);
+        if (this.countBits(union) !== size) continue;
+
+        const eliminations = this.collectEliminations(
+          state,
+          cells.filter(cell => !subset.includes(cell)),
+          union
+        );
+        if (eliminations.length > 0) {
+          return this.createStep(state, technique, [house], subset, [], eliminations);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Hidden pairs/triples: N digits that only fit in the same N cells of a house
+   */
+  private static findHiddenSubset(state: SolverState, size: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = size === 2 ? 'hiddenPair' : 'hiddenTriple';
+
+    for (const { house, cells } of state.topology.houses) {
+      const digits: number[] = [];
+      for (let digit = 1; digit <= state.topology.digits; digit++) {
+        const count = this.cellsWithDigit(state, cells, digit).length;
+        if (count >= 2 && count <= size) {
+          digits.push(digit);
+        }
+      }
+
+      for (const subset of this.combinations(digits, size)) {
+        const subsetMask = subset.reduce((mask, digit) => mask | this.bit(digit), 0);
+        const spots = cells.filter(cell => (state.candidates[cell] & subsetMask) !== 0);
+        if (spots.length !== size) continue;
+
+        const eliminations = this.collectEliminations(state, spots, state.topology.allCandidates & ~subsetMask);
+        if (eliminations.length > 0) {
+          return this.createStep(state, technique, [house], spots, [], eliminations);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Basic fish: a digit confined to the same N columns in N rows (or the
+   * other way round). N = 2 is an X-Wing, N = 3 a Swordfish.
+   */
+  private static findFish(state: SolverState, size: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = size === 2 ? 'xWing' : 'swordfish';
+
+    for (const [baseType, coverType] of [['row', 'column'], ['column', 'row']] as const) {
+      const baseHouses = state.topology.houses.filter(({ house }) => house.type === baseType);
+      const coverHouses = state.topology.houses.filter(({ house }) => house.type === coverType);
+
+      for (let digit = 1; digit <= state.topology.digits; digit++) {
+        const lines = baseHouses
+          .map(line => ({ line, spots: this.cellsWithDigit(state, line.cells, digit) }))
+          .filter(({ spots }) => spots.length >= 2 && spots.length <= size);
+
+        for (const subset of this.combinations(lines, size)) {
+          // Lines from different grids of a Samurai board may cross
+          if (subset.some(({ line }) => line.house.grid !== subset[0].line.house.grid)) continue;
+
+          const spots = subset.flatMap(({ spots: lineSpots }) => lineSpots);
+          const covers = coverHouses.filter(cover => spots.some(cell => cover.cells.includes(cell)));
+          if (covers.length !== size) continue;
+
+          const eliminations = this.collectEliminations(
+            state,
+            covers.flatMap(cover => cover.cells).filter(cell => !spots.includes(cell)),
+            this.bit(digit)
+          );
+          if (eliminations.length > 0) {
+            const houses = [...subset.map(({ line }) => line.house), ...covers.map(cover => cover.house)];
+            return this.createStep(state, technique, houses, spots, [], eliminations);
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * XY-Wing: a bivalue pivot {x,y} sees pincers {x,z} and {y,z}; any cell that
+   * sees both pincers cannot be z
+   */
+  private static findXYWing(state: SolverState): SolveStep | null {
+    const isBivalue = (cell: number) => state.values[cell] === 0 && this.countBits(state.candidates[cell]) === 2;
+
+    for (let pivot = 0; pivot < state.topology.cellCount; pivot++) {
+      if (!isBivalue(pivot)) continue;
+
+      const pivotMask = state.candidates[pivot];
+      const pincers = state.topology.peers[pivot].filter(cell => {
+        const shared = state.candidates[cell] & pivotMask;
+        return isBivalue(cell) && this.countBits(shared) === 1;
+      });
+
+      for (const [first, second] of this.combinations(pincers, 2)) {
+        const firstMask = state.candidates[first];
+        const secondMask = state.candidates[second];
+        const zMask = firstMask & secondMask & ~pivotMask;
+
+        // The pincers must cover both pivot digits and share exactly one other
+        if ((firstMask & pivotMask) === (secondMask & pivotMask)) continue;
+        if (this.countBits(zMask) !== 1) continue;
+
+        const targets = state.topology.peers[first].filter(
+          cell => cell !== pivot && cell !== second && state.topology.peerSets[second].has(cell)
+        );
+        const eliminations = this.collectEliminations(state, targets, zMask);
+        if (eliminations.length > 0) {
+          return this.createStep(state, 'xyWing', [], [pivot, first, second], [], eliminations);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Simple coloring: chains of conjugate pairs for one digit are split into
+   * two colors, exactly one of which is true
+   */
+  private static findSimpleColoring(state: SolverState): SolveStep | null {
+    for (let digit = 1; digit <= state.topology.digits; digit++) {
+      const links = new Map<number, number[]>();
+      for (const { cells } of state.topology.houses) {
+        const spots = this.cellsWithDigit(state, cells, digit);
+        if (spots.length !== 2) continue;
+
+        const [a, b] = spots;
+        links.set(a, [...(links.get(a) ?? []), b]);
+        links.set(b, [...(links.get(b) ?? []), a]);
+      }
+
+      const colors = new Map<number, number>();
+      for (const start of links.keys()) {
+        if (colors.has(start)) continue;
+
+        // Two-color the connected chain with a breadth-first walk
+        const chain: number[] = [];
+        const queue = [start];
+        colors.set(start, 0);
+        while (queue.length > 0) {
+          const cell = queue.shift()!;
+          chain.push(cell);
+          for (const next of links.get(cell) ?? []) {
+            if (!colors.has(next)) {
+              colors.set(next, 1 - colors.get(cell)!);
+              queue.push(next);
+            }
+          }
+        }
+        if (chain.length < 3) continue;
+
+        const step = this.findColoringEliminations(state, digit, chain, colors);
+        if (step) return step;
+      }
+    }
+    return null;
+  }
+
+  private static findColoringEliminations(
+    state: SolverState,
+    digit: number,
+    chain: number[],
+    colors: Map<number, number>
+  ): SolveStep | null {
+    const mask = this.bit(digit);
+
+    // Color wrap: two cells of the same color see each other, so that color is false
+    for (const [a, b] of this.combinations(chain, 2)) {
+      if (colors.get(a) === colors.get(b) && state.topology.peerSets[a].has(b)) {
+        const falseColor = colors.get(a);
+        const eliminations = this.collectEliminations(
+          state,
+          chain.filter(cell => colors.get(cell) === falseColor),
+          mask
+        );
+        return this.createStep(state, 'simpleColoring', [], chain, [], eliminations);
+      }
+    }
+
+    // Color trap: a cell outside the chain that sees both colors
+    const targets: number[] = [];
+    for (let cell = 0; cell < state.topology.cellCount; cell++) {
+      if (chain.includes(cell)) continue;
+
+      const seen = chain.filter(member => state.topology.peerSets[cell].has(member)).map(member => colors.get(member));
+      if (seen.includes(0) && seen.includes(1)) {
+        targets.push(cell);
+      }
+    }
+
+    const eliminations = this.collectEliminations(state, targets, mask);
+    return eliminations.length > 0
+      ? this.createStep(state, 'simpleColoring', [], chain, [], eliminations)
+      : null;
+  }
+
+  /**
+   * Topology helpers
+   */
+  private static getTopology(size: number, constraints: Constraint[] = Constraints.getClassic(size)): Topology {
+    let topology = this.TOPOLOGIES.get(constraints);
+    if (!topology) {
+      topology = this.buildTopology(size, constraints);
+      this.TOPOLOGIES.set(constraints, topology);
+    }
+    return topology;
+  }
+
+  private static buildTopology(size: number, constraints: Constraint[]): Topology {
+    const toCell = (position: Position) => this.toCell(position, size);
+    const houses = Constraints.getHouses(constraints).map(({ house, cells }) => ({ house, cells: cells.map(toCell) }));
+
+    // Cells linked outside any house see each other like house peers do
+    const links = constraints.flatMap(constraint => constraint.links);
+    const linked = (rule: 'different' | 'nonConsecutive') => {
+      const cellLinks: number[][] = Array.from({ length: size * size }, () => []);
+      for (const { cells: [a, b] } of links.filter(link => link.rule === rule)) {
+        cellLinks[toCell(a)].push(toCell(b));
+        cellLinks[toCell(b)].push(toCell(a));
+      }
+      return cellLinks;
+    };
+
+    const peers = this.buildPeers(houses, linked('different'));
+    const digits = Constraints.getDigitCount(constraints, size);
+    const playable = Array.from({ length: size * size }, (_, cell) =>
+      Constraints.isPlayable(constraints, size, Math.floor(cell / size), cell % size)
+    );
+    return {
+      size,
+      cellCount: size * size,
+      digits,
+      playable,
+      playableCount: playable.filter(Boolean).length,
+      allCandidates: (1 << digits) - 1,
+      houses,
+      peers,
+      peerSets: peers.map(cellPeers => new Set(cellPeers)),
+      nonConsecutive: linked('nonConsecutive'),
+    };
+  }
+
+  private static buildPeers(houses: HouseCells[], links: number[][]): number[][] {
+    const peers: Set<number>[] = links.map(() => new Set<number>());
+
+    for (const { cells } of houses) {
+      for (const cell of cells) {
+        for (const other of cells) {
+          if (other !== cell) peers[cell].add(other);
+        }
+      }
+    }
+    links.forEach((cellLinks, cell) => cellLinks.forEach(other => peers[cell].add(other)));
+
+    return peers.map(set => [...set]);
+  }
+
+  private static linesContaining(state: SolverState, cells: number[]): HouseCells[] {
+    return state.topology.houses.filter(
+      ({ house, cells: lineCells }) =>
+        house.type !== 'box' && cells.every(cell => lineCells.includes(cell))
+    );
+  }
+
+  /**
+   * Candidate helpers
+   */
+  private static cellsWithDigit(state: SolverState, cells: number[], digit: number): number[] {
+    const mask = this.bit(digit);
+    return cells.filter(cell => state.values[cell] === 0 && (state.candidates[cell] & mask) !== 0);
+  }
+
+  private static collectEliminations(state: SolverState, cells: number[], mask: number): Candidate[] {
+    const eliminations: Candidate[] = [];
+    for (const cell of cells) {
+      if (state.values[cell] !== 0) continue;
+
+      for (const digit of this.digitsOf(state.candidates[cell] & mask)) {
+        eliminations.push({ position: this.toPosition(cell, state.topology.size), value: digit });
+      }
+    }
+    return eliminations;
+  }
+
+  private static createStep(
+    state: SolverState,
+    technique: SolvingTechnique,
+    houses: House[],
+    cells: number[],
+    placements: Candidate[],
+    eliminations: Candidate[]
+  ): SolveStep {
+    return {
+      technique,
+      houses,
+      cells: cells.map(cell => this.toPosition(cell, state.topology.size)),
+      placements,
+      eliminations,
+    };
+  }
+
+  private static bit(digit: number): number {
+    return 1 << (digit - 1);
+  }
+
+  // The digits one below and one above; bits past the grid's digits are never candidates
+  private static neighbouringBits(digit: number): number {
+    return (this.bit(digit) << 1) | (this.bit(digit) >> 1);
+  }
+
+  private static countBits(mask: number): number {
+    let count = 0;
+    while (mask) {
+      mask &= mask - 1;
+      count++;
+    }
+    return count;
+  }
+
+  private static digitsOf(mask: number): Digit[] {
+    const digits: Digit[] = [];
+    for (let digit = 1; mask >= this.bit(digit); digit++) {
+      if (mask & this.bit(digit)) digits.push(digit);
+    }
+    return digits;
+  }
+
+  private static combinations<T>(items: T[], size: number): T[][] {
+    if (size === 0) return [[]];
+    const result: T[][] = [];
+    for (let i = 0; i <= items.length - size; i++) {
+      for (const rest of this.combinations(items.slice(i + 1), size - 1)) {
+        result.push([items[i], ...rest]);
+      }
+    }
+    return result;
+  }
+
+  private static toCell(position: Position, size: number): number {
+    return position.row * size + position.col;
+  }
+
+  private static toPosition(cell: number, size: number): Position {
+    return { row: Math.floor(cell / size), col: cell % size };
+  }
+}
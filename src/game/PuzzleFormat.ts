@@ -0,0 +1,234 @@
+import {
+  CellValue,
+  ConstraintType,
+  Digit,
+  GameData,
+  ImportedPuzzle,
+  NoteGrid,
+  Position,
+  PuzzleFormatType,
+  PuzzleImportErrorCode,
+  PuzzleImportResult,
+  SudokuGrid,
+} from '../types/game';
+import { SudokuEngine } from './SudokuEngine';
+import { Constraints } from './Constraints';
+
+type PuzzleJson = {
+  format: string;
+  version: number;
+  givens: string;
+  progress?: string;
+  notes?: number[][][];
+  timeElapsed?: number;
+  difficulty?: string;
+  seed?: number;
+  constraints?: ConstraintType[]; // Only when the rules go beyond classic
+};
+
+export class PuzzleFormat {
+  private static readonly GRID_SIZE = 9;
+  private static readonly JSON_FORMAT = 'sudoku-json';
+  private static readonly JSON_VERSION = 1;
+
+  /**
+   * Parses a puzzle in any supported format and checks that it has exactly
+   * one solution
+   */
+  static parse(text: string): PuzzleImportResult {
+    const format = this.detectFormat(text);
+
+    let parsed: Omit<ImportedPuzzle, 'solution'> | string;
+    switch (format) {
+      case 'json': parsed = this.parseJson(text); break;
+      case 'sdk': parsed = this.parseSdk(text); break;
+      case 'line': parsed = this.parseLine(text); break;
+    }
+    if (typeof parsed === 'string') {
+      return this.failure('malformed', parsed);
+    }
+
+    const constraints = Constraints.build(parsed.constraints ?? Constraints.CLASSIC, parsed.givens.length);
+    const { conflicts } = SudokuEngine.validateGrid(parsed.givens, undefined, constraints);
+    if (conflicts.length > 0) {
+      return this.failure('duplicateGivens', 'Some givens break the rules of the puzzle.', conflicts);
+    }
+
+    const solutions = SudokuEngine.findSolutions(parsed.givens, 2, constraints);
+    if (solutions.length === 0) {
+      return this.failure('noSolution', 'This puzzle has no solution.');
+    }
+    if (solutions.length > 1) {
+      return this.failure('multipleSolutions', 'This puzzle has more than one solution.');
+    }
+
+    return { ok: true, puzzle: { ...parsed, solution: solutions[0] } };
+  }
+
+  /**
+   * Guesses the format from the text's shape
+   */
+  static detectFormat(text: string): PuzzleFormatType {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{')) return 'json';
+    return this.getContentLines(trimmed).length > 1 ? 'sdk' : 'line';
+  }
+
+  /**
+   * Serializes a grid as a single 81-character line, '.' for blanks
+   */
+  static toLine(grid: SudokuGrid): string {
+    return grid.map(row => row.map(value => value ?? '.').join('')).join('');
+  }
+
+  /**
+   * Serializes a grid in the multi-line .sdk (SadMan) format
+   */
+  static toSdk(grid: SudokuGrid, description?: string): string {
+    const lines = grid.map(row => row.map(value => value ?? '.').join(''));
+    return [...(description ? [`#D${description}`] : []), ...lines].join('\n');
+  }
+
+  /**
+   * Serializes a game, including progress and notes, as JSON
+   */
+  static toJson(gameData: GameData): string {
+    const json: PuzzleJson = {
+      format: this.JSON_FORMAT,
+      version: this.JSON_VERSION,
+      givens: this.toLine(gameData.originalGrid),
+      progress: this.toLine(gameData.grid),
+      notes: gameData.notes,
+      timeElapsed: gameData.timeElapsed,
+      difficulty: gameData.difficulty,
+      seed: gameData.seed,
+      constraints: gameData.constraints,
+    };
+    return JSON.stringify(json, null, 2);
+  }
+
+  /**
+   * Format parsers; each returns an error message on malformed input
+   */
+  private static parseLine(text: string): Omit<ImportedPuzzle, 'solution'> | string {
+    const givens = this.parseGridString(this.getContentLines(text).join('').replace(/\s/g, ''));
+    return typeof givens === 'string' ? givens : { format: 'line', givens };
+  }
+
+  private static parseSdk(text: string): Omit<ImportedPuzzle, 'solution'> | string {
+    const lines = this.getContentLines(text);
+    if (lines.length !== this.GRID_SIZE) {
+      return `Expected ${this.GRID_SIZE} rows but found ${lines.length}.`;
+    }
+
+    const badRow = lines.findIndex(line => line.length !== this.GRID_SIZE);
+    if (badRow !== -1) {
+      return `Row ${badRow + 1} should have ${this.GRID_SIZE} cells but has ${lines[badRow].length}.`;
+    }
+
+    const givens = this.parseGridString(lines.join(''));
+    return typeof givens === 'string' ? givens : { format: 'sdk', givens };
+  }
+
+  private static parseJson(text: string): Omit<ImportedPuzzle, 'solution'> | string {
+    let json: Partial<PuzzleJson>;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return 'The text is not valid JSON.';
+    }
+
+    if (json.format !== this.JSON_FORMAT || typeof json.givens !== 'string') {
+      return 'The JSON is not a recognised puzzle export.';
+    }
+
+    const givens = this.parseGridString(json.givens);
+    if (typeof givens === 'string') return givens;
+
+    let progress: SudokuGrid | undefined;
+    if (json.progress !== undefined) {
+      const parsedProgress = this.parseGridString(String(json.progress));
+      if (typeof parsedProgress === 'string') return `Progress: ${parsedProgress}`;
+
+      const changesGiven = givens.some((row, r) =>
+        row.some((value, c) => value !== null && parsedProgress[r][c] !== value)
+      );
+      if (changesGiven) return 'The saved progress changes a given.';
+      progress = parsedProgress;
+    }
+
+    let notes: NoteGrid | undefined;
+    if (json.notes !== undefined) {
+      if (!this.isNoteGrid(json.notes)) return 'The notes are malformed.';
+      notes = json.notes;
+    }
+
+    const timeElapsed = typeof json.timeElapsed === 'number' && json.timeElapsed >= 0
+      ? Math.floor(json.timeElapsed)
+      : undefined;
+
+    let constraints: ConstraintType[] | undefined;
+    if (json.constraints !== undefined) {
+      if (!Array.isArray(json.constraints) || !json.constraints.every(type => Constraints.isConstraintType(type))) {
+        return 'The rules are malformed.';
+      }
+      constraints = Constraints.isClassic(json.constraints) ? undefined : json.constraints;
+    }
+
+    return { format: 'json', givens, progress, notes, timeElapsed, constraints };
+  }
+
+  /**
+   * Shared helpers
+   */
+  private static parseGridString(cells: string): SudokuGrid | string {
+    if (cells.length !== this.GRID_SIZE * this.GRID_SIZE) {
+      return `Expected ${this.GRID_SIZE * this.GRID_SIZE} cells but found ${cells.length}.`;
+    }
+
+    const invalid = cells.search(/[^1-9.0]/);
+    if (invalid !== -1) {
+      return `Unexpected character "${cells[invalid]}" at cell ${invalid + 1}.`;
+    }
+
+    return Array.from({ length: this.GRID_SIZE }, (_, row) =>
+      Array.from({ length: this.GRID_SIZE }, (_, col) => {
+        const char = cells[row * this.GRID_SIZE + col];
+        return (char === '.' || char === '0' ? null : Number(char)) as CellValue;
+      })
+    );
+  }
+
+  // .sdk files may carry '#' metadata lines and '[Puzzle]' section headers
+  private static getContentLines(text: string): string[] {
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#') && !line.startsWith('['));
+  }
+
+  private static isNoteGrid(notes: unknown): notes is NoteGrid {
+    return (
+      Array.isArray(notes) &&
+      notes.length === this.GRID_SIZE &&
+      notes.every(row =>
+        Array.isArray(row) &&
+        row.length === this.GRID_SIZE &&
+        row.every(cell =>
+          Array.isArray(cell) &&
+          cell.every((digit: unknown): digit is Digit =>
+            typeof digit === 'number' && Number.isInteger(digit) && digit >= 1 && digit <= this.GRID_SIZE
+          )
+        )
+      )
+    );
+  }
+
+  private static failure(
+    code: PuzzleImportErrorCode,
+    message: string,
+    conflicts: Position[] = []
+  ): PuzzleImportResult {
+    return { ok: false, error: { code, message, conflicts } };
+  }
+}
@@ -0,0 +1,85 @@
+import { InteractionManager } from 'react-native';
+import { Difficulty, GeneratedPuzzle } from '../types/game';
+import { SudokuEngine } from './SudokuEngine';
+import { Storage } from '../utils/Storage';
+
+/**
+ * Keeps a few ready-made puzzles per difficulty in storage so new games can
+ * start without waiting on generation. Refills run in the background.
+ */
+export class PuzzlePool {
+  private static readonly TARGET_SIZE = 3;
+  // Hard puzzles take longest to generate, so they are refilled first
+  private static readonly REFILL_ORDER: Difficulty[] = ['hard', 'medium', 'easy'];
+  private static readonly SLOT_TIMEOUT_MS = 30000;
+
+  private static refillController: AbortController | null = null;
+
+  /**
+   * Takes a pooled puzzle for the difficulty, or null if the pool is empty
+   */
+  static async take(difficulty: Difficulty): Promise<GeneratedPuzzle | null> {
+    return Storage.takePooledPuzzle(difficulty);
+  }
+
+  /**
+   * Returns a taken puzzle that was never played, such as when the game it
+   * was taken for is cancelled
+   */
+  static async putBack(difficulty: Difficulty, puzzle: GeneratedPuzzle): Promise<void> {
+    await Storage.addPooledPuzzle(difficulty, puzzle);
+  }
+
+  /**
+   * Starts topping up the pool once current interactions have finished.
+   * Does nothing if a refill is already running.
+   */
+  static scheduleRefill(): void {
+    if (this.refillController) return;
+
+    const controller = new AbortController();
+    this.refillController = controller;
+
+    InteractionManager.runAfterInteractions(() => {
+      this.refill(controller.signal)
+        .catch(error => console.error('Error refilling puzzle pool:', error))
+        .finally(() => {
+          if (this.refillController === controller) {
+            this.refillController = null;
+          }
+        });
+    });
+  }
+
+  /**
+   * Stops a running refill, e.g. so a foreground generation gets the thread
+   */
+  static cancelRefill(): void {
+    this.refillController?.abort();
+    this.refillController = null;
+  }
+
+  private static async refill(signal: AbortSignal): Promise<void> {
+    const pool = await Storage.getPuzzlePool();
+
+    for (const difficulty of this.REFILL_ORDER) {
+      const missing = this.TARGET_SIZE - pool[difficulty].length;
+      for (let i = 0; i < missing; i++) {
+        // Generation keeps going until a candidate grades in band, so each
+        // slot gets a time limit
+        const puzzle = await SudokuEngine.generatePuzzleAsync(difficulty, undefined, {
+          signal,
+          timeoutMs: this.SLOT_TIMEOUT_MS,
+        });
+        if (!puzzle) return;
+
+        // A puzzle that missed the band is dropped and its slot left for the
+        // next refill
+        if (puzzle.grade?.difficulty !== difficulty || puzzle.grade.requiresGuessing) continue;
+
+        // A recently played duplicate is rejected and left for the next refill
+        await Storage.addPooledPuzzle(difficulty, puzzle);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { GridLayout, GridSize, House, Position } from '../types/game';
+import { GridShape } from './GridShape';
+
+/**
+ * Board geometry for Samurai Sudoku: four grids in the corners of the board
+ * and a fifth in the middle, whose corner boxes are also the inner corner
+ * boxes of the other four. Boxes line up across the whole board, so each
+ * cell has one box position even where two grids share it.
+ */
+export class SamuraiLayout {
+  static readonly GRID_SIZE: GridSize = 9;
+
+  private static readonly GRID_NAMES = ['top-left', 'top-right', 'centre', 'bottom-left', 'bottom-right'];
+
+  /**
+   * Builds the five-grid layout for a grid size; 9x9 grids make a 21x21 board
+   */
+  static create(gridSize: GridSize = this.GRID_SIZE): GridLayout {
+    const box = GridShape.getBoxShape(gridSize);
+    const size = gridSize * 2 + box.rows;
+    const far = size - gridSize;
+    const middle = gridSize - box.rows;
+
+    return {
+      size,
+      gridSize,
+      origins: [
+        { row: 0, col: 0 },
+        { row: 0, col: far },
+        { row: middle, col: middle },
+        { row: far, col: 0 },
+        { row: far, col: far },
+      ],
+    };
+  }
+
+  /**
+   * Gets the grids a cell belongs to: one, two for a shared corner box, or
+   * none for a hole
+   */
+  static getGridsAt(row: number, col: number, layout: GridLayout): number[] {
+    const { gridSize, origins } = layout;
+    return origins.flatMap((origin, grid) =>
+      row >= origin.row && row < origin.row + gridSize && col >= origin.col && col < origin.col + gridSize
+        ? [grid]
+        : []
+    );
+  }
+
+  static isHole(row: number, col: number, layout: GridLayout): boolean {
+    return this.getGridsAt(row, col, layout).length === 0;
+  }
+
+  /**
+   * Gets the index of the box containing a cell, counting boxes row by row
+   * across the whole board
+   */
+  static getBoxIndex(row: number, col: number, layout: GridLayout): number {
+    const box = GridShape.getBoxShape(layout.gridSize);
+    return Math.floor(row / box.rows) * Math.ceil(layout.size / box.cols) + Math.floor(col / box.cols);
+  }
+
+  /**
+   * Gets the board cells of a house of one of the grids
+   */
+  static getHouseCells(house: House, layout: GridLayout): Position[] {
+    const origin = layout.origins[house.grid ?? 0];
+    return GridShape.getHouseCells({ type: house.type, index: house.index }, layout.gridSize)
+      .map(({ row, col }) => ({ row: row + origin.row, col: col + origin.col }));
+  }
+
+  /**
+   * Gets the name of a grid for hint text, such as 'top-left'
+   */
+  static getGridName(grid: number): string {
+    return this.GRID_NAMES[grid] ?? `${grid + 1}`;
+  }
+}
@@ -1,16 +1,60 @@
-import { CellValue, SudokuGrid, Position, Difficulty, ValidationResult } from '../types/game';
+import {
+  Candidate,
+  CellValue,
+  Digit,
+  SudokuGrid,
+  NoteGrid,
+  Position,
+  Difficulty,
+  ValidationResult,
+  PuzzleGrade,
+  Hint,
+  GeneratedPuzzle,
+  GenerationProgress,
+  GenerationOptions,
+  GridSize,
+  Cage,
+  Variant,
+  RegionMap,
+  GridLayout,
+  Constraint,
+  ConstraintType,
+} from '../types/game';
+import { LogicalSolver } from './LogicalSolver';
+import { BitmaskSolver } from './BitmaskSolver';
+import { GridShape } from './GridShape';
+import { KillerCages } from './KillerCages';
+import { Constraints } from './Constraints';
+import { JigsawRegions } from './JigsawRegions';
+import { SamuraiLayout } from './SamuraiLayout';
+import { SeededRandom } from '../utils/Random';
 
 export class SudokuEngine {
-  private static readonly GRID_SIZE = 9;
-  private static readonly BOX_SIZE = 3;
+  private static readonly GENERATION_SLICE_MS = 12;
+  private static readonly GENERATION_TIMEOUT_MS = 5000;
+  private static readonly UNIQUENESS_NODE_BUDGET = 5000;
+  private static readonly KILLER_NODE_BUDGET = 5000;
+  private static readonly KILLER_MERGING_ROUNDS = 15;
+  private static readonly SOLUTION_NODE_BUDGET = 50000;
+  private static readonly MAX_SOLUTION_ATTEMPTS = 20;
+  private static readonly DIFFICULTY_RANK: Record<Difficulty, number> = { easy: 0, medium: 1, hard: 2 };
 
   /**
-   * Creates an empty 9x9 Sudoku grid
+   * Creates an empty Sudoku grid, 9x9 unless another size is given
    */
-  static createEmptyGrid(): SudokuGrid {
-    return Array(this.GRID_SIZE)
+  static createEmptyGrid(size: number = GridShape.DEFAULT_SIZE): SudokuGrid {
+    return Array(size)
       .fill(null)
-      .map(() => Array(this.GRID_SIZE).fill(null));
+      .map(() => Array(size).fill(null));
+  }
+
+  /**
+   * Creates an empty notes layer with no pencil marks
+   */
+  static createEmptyNotes(size: number = GridShape.DEFAULT_SIZE): NoteGrid {
+    return Array.from({ length: size }, () =>
+      Array.from({ length: size }, () => [])
+    );
   }
 
   /**
@@ -21,277 +65,606 @@ export class SudokuEngine {
   }
 
   /**
-   * Checks if a number can be placed at a specific position
+   * Checks if a number can be placed at a specific position; the classic
+   * row, column and box rules apply unless others are given
    */
-  static isValidMove(grid: SudokuGrid, row: number, col: number, num: CellValue): boolean {
-    if (num === null) return true;
+  static isValidMove(
+    grid: SudokuGrid,
+    row: number,
+    col: number,
+    num: CellValue,
+    constraints: Constraint[] = Constraints.getClassic(grid.length)
+  ): boolean {
+    return num === null || Constraints.allows(grid, constraints, row, col, num);
+  }
 
-    // Check row
-    for (let c = 0; c < this.GRID_SIZE; c++) {
-      if (c !== col && grid[row][c] === num) {
-        return false;
-      }
-    }
+  /**
+   * Gets every cell that may not hold the same value as the given cell:
+   * those sharing a row, column or box, plus any the rules link to it
+   */
+  static getPeers(
+    row: number,
+    col: number,
+    size: number = GridShape.DEFAULT_SIZE,
+    constraints: Constraint[] = Constraints.getClassic(size)
+  ): Position[] {
+    return Constraints.getPeers(constraints, size, row, col);
+  }
 
-    // Check column
-    for (let r = 0; r < this.GRID_SIZE; r++) {
-      if (r !== row && grid[r][col] === num) {
-        return false;
-      }
-    }
+  /**
+   * Gets the candidates a value placed in a cell rules out in other cells
+   */
+  static getEliminations(
+    row: number,
+    col: number,
+    value: Digit,
+    size: number = GridShape.DEFAULT_SIZE,
+    constraints: Constraint[] = Constraints.getClassic(size)
+  ): Candidate[] {
+    return Constraints.getEliminations(constraints, size, row, col, value);
+  }
 
-    // Check 3x3 box
-    const boxStartRow = Math.floor(row / this.BOX_SIZE) * this.BOX_SIZE;
-    const boxStartCol = Math.floor(col / this.BOX_SIZE) * this.BOX_SIZE;
+  /**
+   * Gets the digits each empty cell could still hold given the filled cells
+   */
+  static getCandidates(grid: SudokuGrid, constraints: Constraint[] = Constraints.getClassic(grid.length)): NoteGrid {
+    const digits = Constraints.getDigitCount(constraints, grid.length);
+    return grid.map((rowValues, row) =>
+      rowValues.map((value, col) => {
+        if (value !== null || !Constraints.isPlayable(constraints, grid.length, row, col)) return [];
 
-    for (let r = boxStartRow; r < boxStartRow + this.BOX_SIZE; r++) {
-      for (let c = boxStartCol; c < boxStartCol + this.BOX_SIZE; c++) {
-        if ((r !== row || c !== col) && grid[r][c] === num) {
-          return false;
+        const candidates: Digit[] = [];
+        for (let num = 1; num <= digits; num++) {
+          if (this.isValidMove(grid, row, col, num, constraints)) {
+            candidates.push(num);
+          }
         }
-      }
-    }
-
-    return true;
+        return candidates;
+      })
+    );
   }
 
   /**
-   * Finds all conflicts for the current grid state
+   * Finds all conflicts for the current grid state. With Killer cages, the
+   * filled cells of a cage that breaks its rules count as conflicts too.
    */
-  static validateGrid(grid: SudokuGrid): ValidationResult {
+  static validateGrid(
+    grid: SudokuGrid,
+    cages?: Cage[],
+    constraints: Constraint[] = Constraints.getClassic(grid.length)
+  ): ValidationResult {
+    const size = grid.length;
     const conflicts: Position[] = [];
-    let filledCells = 0;
+    let emptyCells = 0;
 
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
         const value = grid[row][col];
-        if (value !== null) {
-          filledCells++;
-          if (!this.isValidMove(grid, row, col, value)) {
+        if (value === null) {
+          // The holes of a Samurai board are never filled
+          if (Constraints.isPlayable(constraints, size, row, col)) emptyCells++;
+        } else {
+          if (!this.isValidMove(grid, row, col, value, constraints)) {
             conflicts.push({ row, col });
           }
         }
       }
     }
 
+    const brokenCages = cages ? KillerCages.findBrokenCages(grid, cages) : [];
+    for (const index of brokenCages) {
+      for (const cell of cages![index].cells) {
+        const isNew = !conflicts.some(pos => pos.row === cell.row && pos.col === cell.col);
+        if (grid[cell.row][cell.col] !== null && isNew) {
+          conflicts.push(cell);
+        }
+      }
+    }
+
     return {
       isValid: conflicts.length === 0,
       conflicts,
-      isCompleted: conflicts.length === 0 && filledCells === this.GRID_SIZE * this.GRID_SIZE
+      isCompleted: conflicts.length === 0 && emptyCells === 0,
+      ...(cages && { brokenCages }),
     };
   }
 
   /**
-   * Solves a Sudoku puzzle using backtracking algorithm
+   * Finds the filled cells whose values differ from the solution, whether or
+   * not they clash with anything yet
+   */
+  static findWrongCells(grid: SudokuGrid, solution: SudokuGrid): Position[] {
+    const wrongCells: Position[] = [];
+    grid.forEach((row, rowIndex) => row.forEach((value, col) => {
+      if (value !== null && value !== solution[rowIndex][col]) {
+        wrongCells.push({ row: rowIndex, col });
+      }
+    }));
+    return wrongCells;
+  }
+
+  /**
+   * Solves a Sudoku puzzle in place; returns false if it has no solution
    */
   static solvePuzzle(grid: SudokuGrid): boolean {
-    const workingGrid = this.cloneGrid(grid);
-    return this.solveRecursive(workingGrid, grid);
-  }
-
-  private static solveRecursive(workingGrid: SudokuGrid, resultGrid: SudokuGrid): boolean {
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
-        if (workingGrid[row][col] === null) {
-          for (let num = 1; num <= 9; num++) {
-            const cellValue = num as CellValue;
-            if (this.isValidMove(workingGrid, row, col, cellValue)) {
-              workingGrid[row][col] = cellValue;
-              
-              if (this.solveRecursive(workingGrid, resultGrid)) {
-                resultGrid[row][col] = cellValue;
-                return true;
-              }
-              
-              workingGrid[row][col] = null;
-            }
-          }
-          return false;
-        }
+    const solution = BitmaskSolver.solve(grid);
+    if (!solution) return false;
+
+    for (let row = 0; row < grid.length; row++) {
+      for (let col = 0; col < grid.length; col++) {
+        grid[row][col] = solution[row][col];
       }
     }
-    
-    // Copy solved grid to result
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
-        resultGrid[row][col] = workingGrid[row][col];
+    return true;
+  }
+
+  /**
+   * Generates a complete valid Sudoku solution; the same seed gives the same grid
+   */
+  static generateCompleteSolution(
+    seed: number = SeededRandom.createSeed(),
+    size: GridSize = GridShape.DEFAULT_SIZE
+  ): SudokuGrid {
+    return this.drain(this.buildCompleteSolution(new SeededRandom(seed), size, 0));
+  }
+
+  private static *buildCompleteSolution(
+    random: SeededRandom,
+    size: GridSize,
+    attempt: number
+  ): Generator<GenerationProgress, SudokuGrid, boolean> {
+    let solution: SudokuGrid | null = null;
+    while (!solution) {
+      const grid = this.createEmptyGrid(size);
+
+      // Fill diagonal boxes first (they don't depend on each other)
+      this.fillDiagonalBoxes(grid, random);
+
+      // Fill remaining cells; a 9x9 grid always completes, but smaller boxes
+      // can leave the diagonal fill with no solution, so those retry
+      solution = yield* this.searchSteps(BitmaskSolver.solveSteps(grid), attempt);
+    }
+    return solution;
+  }
+
+  /**
+   * Builds a solution under the given rules, along with the rule objects it
+   * was built for and any Jigsaw regions or Samurai layout
+   */
+  private static *buildSolution(
+    random: SeededRandom,
+    size: GridSize,
+    variant: Variant,
+    rules: ConstraintType[],
+    attempt: number
+  ): Generator<
+    GenerationProgress,
+    { solution: SudokuGrid; constraints: Constraint[]; regions?: RegionMap; layout?: GridLayout },
+    boolean
+  > {
+    if (variant === 'jigsaw') {
+      return yield* this.buildJigsawSolution(random, size, rules, attempt);
+    }
+    if (variant === 'samurai') {
+      // One search over the whole board keeps the shared boxes consistent
+      const layout = SamuraiLayout.create(size);
+      const constraints = Constraints.build(rules, layout.size, undefined, layout);
+      const solution = yield* this.buildConstrainedSolution(random, layout.size, constraints, attempt);
+      return { solution, constraints, layout };
+    }
+    if (Constraints.isClassic(rules)) {
+      return { solution: yield* this.buildCompleteSolution(random, size, attempt), constraints: Constraints.getClassic(size) };
+    }
+
+    const constraints = Constraints.build(rules, size);
+    return { solution: yield* this.buildConstrainedSolution(random, size, constraints, attempt), constraints };
+  }
+
+  /**
+   * Builds a Jigsaw region layout and a solution for it. Some layouts have
+   * no solution, or none the solver finds quickly, so those are replaced.
+   */
+  private static *buildJigsawSolution(
+    random: SeededRandom,
+    size: GridSize,
+    rules: ConstraintType[],
+    attempt: number
+  ): Generator<GenerationProgress, { solution: SudokuGrid; constraints: Constraint[]; regions: RegionMap }, boolean> {
+    for (;;) {
+      const regions = JigsawRegions.generate(size, random);
+      const constraints = Constraints.build(rules, size, regions);
+      if (!Constraints.isClassic(rules)) {
+        return { solution: yield* this.buildConstrainedSolution(random, size, constraints, attempt), constraints, regions };
       }
+
+      const solved = yield* this.searchSteps(
+        BitmaskSolver.solveSteps(this.createEmptyGrid(size), { constraints, maxNodes: this.UNIQUENESS_NODE_BUDGET }),
+        attempt
+      );
+      if (!solved) continue;
+
+      // The solver always picks low digits first; relabelling gives a random solution
+      const labels = random.shuffle(Array.from({ length: size }, (_, i) => i + 1));
+      return { solution: solved.map(row => row.map(value => labels[value! - 1])), constraints, regions };
     }
-    
-    return true;
   }
 
   /**
-   * Generates a complete valid Sudoku solution
+   * Builds a solution under variant rules. Relabelling digits would break
+   * rules like non-consecutive, so the solver tries digits in random order
+   * instead. Throws when the rules seem to leave no solution at this size.
    */
-  static generateCompleteSolution(): SudokuGrid {
-    const grid = this.createEmptyGrid();
-    
-    // Fill diagonal 3x3 boxes first (they don't depend on each other)
-    this.fillDiagonalBoxes(grid);
-    
-    // Fill remaining cells
-    this.fillRemaining(grid, 0, this.BOX_SIZE);
-    
-    return grid;
+  private static *buildConstrainedSolution(
+    random: SeededRandom,
+    size: number,
+    constraints: Constraint[],
+    attempt: number
+  ): Generator<GenerationProgress, SudokuGrid, boolean> {
+    for (let i = 0; i < this.MAX_SOLUTION_ATTEMPTS; i++) {
+      const solution = yield* this.searchSteps(
+        BitmaskSolver.solveSteps(this.createEmptyGrid(size), {
+          constraints,
+          random,
+          maxNodes: this.SOLUTION_NODE_BUDGET,
+        }),
+        attempt
+      );
+      if (solution) return solution;
+    }
+
+    throw new Error(`No solution found for these rules on a ${size}x${size} grid`);
   }
 
-  private static fillDiagonalBoxes(grid: SudokuGrid): void {
-    for (let box = 0; box < this.GRID_SIZE; box += this.BOX_SIZE) {
-      this.fillBox(grid, box, box);
+  // Passes on the pauses of a solver search as progress at the start of a candidate
+  private static *searchSteps<T>(search: Generator<void, T, void>, attempt: number): Generator<GenerationProgress, T, boolean> {
+    let step = search.next();
+    while (!step.done) {
+      yield this.getGenerationProgress(attempt, 0);
+      step = search.next();
     }
+    return step.value;
   }
 
-  private static fillBox(grid: SudokuGrid, row: number, col: number): void {
-    const numbers = this.shuffleArray([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  // Runs generation steps straight through, never timing out
+  private static drain<T>(steps: Generator<GenerationProgress, T, boolean>): T {
+    let step = steps.next(false);
+    while (!step.done) {
+      step = steps.next(false);
+    }
+    return step.value;
+  }
+
+  // Boxes on the diagonal share no row or column, even when boxes are rectangular
+  private static fillDiagonalBoxes(grid: SudokuGrid, random: SeededRandom): void {
+    const box = GridShape.getBoxShape(grid.length);
+    const diagonalBoxes = Math.min(grid.length / box.rows, grid.length / box.cols);
+
+    for (let i = 0; i < diagonalBoxes; i++) {
+      this.fillBox(grid, i * box.rows, i * box.cols, random);
+    }
+  }
+
+  private static fillBox(grid: SudokuGrid, row: number, col: number, random: SeededRandom): void {
+    const box = GridShape.getBoxShape(grid.length);
+    const numbers = random.shuffle(Array.from({ length: grid.length }, (_, i) => i + 1));
     let index = 0;
     
-    for (let i = 0; i < this.BOX_SIZE; i++) {
-      for (let j = 0; j < this.BOX_SIZE; j++) {
-        grid[row + i][col + j] = numbers[index] as CellValue;
+    for (let i = 0; i < box.rows; i++) {
+      for (let j = 0; j < box.cols; j++) {
+        grid[row + i][col + j] = numbers[index];
         index++;
       }
     }
   }
 
-  private static fillRemaining(grid: SudokuGrid, row: number, col: number): boolean {
-    if (col >= this.GRID_SIZE && row < this.GRID_SIZE - 1) {
-      row++;
-      col = 0;
+  /**
+   * Creates a puzzle whose logical grade falls in the requested difficulty
+   * band, making as many candidates as that takes.
+   * The same seed and difficulty always give the same puzzle and solution.
+   */
+  static generatePuzzle(
+    difficulty: Difficulty,
+    seed: number = SeededRandom.createSeed(),
+    size: GridSize = GridShape.DEFAULT_SIZE,
+    variant: Variant = 'classic',
+    rules: ConstraintType[] = Constraints.CLASSIC
+  ): GeneratedPuzzle {
+    return this.drain(this.generationSteps(difficulty, seed, size, variant, rules));
+  }
+
+  /**
+   * Like generatePuzzle, but works in short slices and yields to the event
+   * loop between them so the UI stays responsive. Resolves to null if the
+   * signal aborts. Once the timeout passes, the closest candidate so far is
+   * used, so the puzzle can differ from what generatePuzzle gives for the seed.
+   */
+  static async generatePuzzleAsync(
+    difficulty: Difficulty,
+    seed: number = SeededRandom.createSeed(),
+    options: GenerationOptions = {}
+  ): Promise<GeneratedPuzzle | null> {
+    const {
+      size = GridShape.DEFAULT_SIZE,
+      variant = 'classic',
+      constraints: rules = Constraints.CLASSIC,
+      onProgress,
+      signal,
+      timeoutMs = this.GENERATION_TIMEOUT_MS,
+    } = options;
+    const deadline = Date.now() + timeoutMs;
+    const steps = this.generationSteps(difficulty, seed, size, variant, rules);
+
+    let sliceStart = Date.now();
+    let step = steps.next(false);
+    while (!step.done) {
+      if (signal?.aborted) return null;
+
+      if (Date.now() - sliceStart >= this.GENERATION_SLICE_MS) {
+        onProgress?.(step.value);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) return null;
+        sliceStart = Date.now();
+      }
+      step = steps.next(Date.now() >= deadline);
     }
-    if (row >= this.GRID_SIZE && col >= this.GRID_SIZE) {
-      return true;
+
+    return step.value;
+  }
+
+  /**
+   * Generation as a sequence of small steps. Each yield reports progress
+   * and receives whether the caller has run out of time. Candidates are
+   * made until one grades in the band; only once time runs out is the
+   * closest so far used. The check happens between candidates, so at least
+   * one candidate is always finished.
+   */
+  private static *generationSteps(
+    difficulty: Difficulty,
+    seed: number,
+    size: GridSize,
+    variant: Variant,
+    rules: ConstraintType[]
+  ): Generator<GenerationProgress, GeneratedPuzzle, boolean> {
+    if (variant === 'killer') {
+      return yield* this.killerSteps(difficulty, seed, size, rules);
     }
 
-    if (row < this.BOX_SIZE) {
-      if (col < this.BOX_SIZE) col = this.BOX_SIZE;
-    } else if (row < this.GRID_SIZE - this.BOX_SIZE) {
-      if (col === Math.floor(row / this.BOX_SIZE) * this.BOX_SIZE) col += this.BOX_SIZE;
-    } else {
-      if (col === this.GRID_SIZE - this.BOX_SIZE) {
-        row++;
-        col = 0;
-        if (row >= this.GRID_SIZE) return true;
+    const random = new SeededRandom(seed);
+    const extraRules = Constraints.isClassic(rules) ? undefined : rules;
+    let closest: GeneratedPuzzle | null = null;
+    let closestDistance = Infinity;
+
+    for (let attempt = 0; ; attempt++) {
+      const { solution, constraints, regions, layout } = yield* this.buildSolution(random, size, variant, rules, attempt);
+      const positions = this.getPlayablePositions(solution.length, constraints);
+      const maxCellsToRemove = this.getMaxCellsToRemove(difficulty, size, positions.length);
+      const puzzle = yield* this.removeCells(solution, positions, maxCellsToRemove, random, attempt, constraints);
+      const grade = LogicalSolver.gradePuzzle(puzzle, constraints);
+
+      const candidate: GeneratedPuzzle = { puzzle, solution, grade, seed, regions, layout, constraints: extraRules };
+      // Puzzles that need guessing count as a miss, even for hard
+      const distance = this.getGradeDistance(grade, difficulty);
+      if (distance === 0) return candidate;
+      if (distance < closestDistance) {
+        closest = candidate;
+        closestDistance = distance;
       }
+
+      const timedOut = yield this.getGenerationProgress(attempt, 1);
+      if (timedOut) return closest ?? candidate;
     }
+  }
 
-    for (let num = 1; num <= this.GRID_SIZE; num++) {
-      if (this.isValidMove(grid, row, col, num as CellValue)) {
-        grid[row][col] = num as CellValue;
-        if (this.fillRemaining(grid, row, col + 1)) return true;
-        grid[row][col] = null;
+  /**
+   * Killer generation: cages over a fresh solution, with no givens at all.
+   * While a second solution exists, a cage where the two solutions differ is
+   * split, so the cages alone end up pinning down the solution. Cage sizes
+   * set the difficulty. Once time runs out, the cell is given instead of
+   * split, which pins the solution down in far fewer rounds.
+   */
+  private static *killerSteps(
+    difficulty: Difficulty,
+    seed: number,
+    size: GridSize,
+    rules: ConstraintType[]
+  ): Generator<GenerationProgress, GeneratedPuzzle, boolean> {
+    const random = new SeededRandom(seed);
+    const { solution, constraints } = yield* this.buildSolution(random, size, 'killer', rules, 0);
+    const puzzle = this.createEmptyGrid(size);
+    let cages = KillerCages.build(solution, difficulty, random);
+    let timedOut = false;
+
+    for (let round = 0; ; round++) {
+      const count = BitmaskSolver.countSolutions(puzzle, 2, { cages, constraints, maxNodes: this.KILLER_NODE_BUDGET });
+      if (count === 1) break;
+
+      let cell: Position;
+      if (count === null) {
+        // Too slow to tell: split one of the largest cages, or give any empty cell
+        const largest = Math.max(...cages.map(cage => cage.cells.length));
+        const candidates = timedOut
+          ? this.getAllPositions(size).filter(({ row, col }) => puzzle[row][col] === null)
+          : cages.filter(cage => cage.cells.length === largest).map(cage => cage.cells[0]);
+        cell = candidates[random.nextInt(candidates.length)];
+      } else {
+        const [first, second] = yield* this.searchSteps(
+          BitmaskSolver.findSolutionsSteps(puzzle, 2, { cages, constraints }),
+          0
+        );
+        const differing = this.getAllPositions(size).filter(({ row, col }) => first[row][col] !== second[row][col]);
+        cell = differing[random.nextInt(differing.length)];
       }
+
+      if (timedOut) {
+        puzzle[cell.row][cell.col] = solution[cell.row][cell.col];
+      } else {
+        // Merging single cells into neighbours can undo earlier progress, so
+        // after a while splits may leave them, which always ends the loop
+        cages = KillerCages.split(cages, cell, solution, round >= this.KILLER_MERGING_ROUNDS);
+      }
+
+      // How many splits are needed is unknown; progress creeps towards the end
+      timedOut = (yield this.getGenerationProgress(0, 1 - 1 / (round + 2))) || timedOut;
     }
-    return false;
+
+    return { puzzle, solution, seed, cages, constraints: Constraints.isClassic(rules) ? undefined : rules };
   }
 
   /**
-   * Creates a puzzle by removing numbers from a complete solution
+   * Removes numbers at the given cells of a complete solution while the
+   * solution stays unique
    */
-  static generatePuzzle(difficulty: Difficulty): { puzzle: SudokuGrid; solution: SudokuGrid } {
-    const solution = this.generateCompleteSolution();
+  private static *removeCells(
+    solution: SudokuGrid,
+    positions: Position[],
+    maxCellsToRemove: number,
+    random: SeededRandom,
+    attempt: number,
+    constraints: Constraint[]
+  ): Generator<GenerationProgress, SudokuGrid, boolean> {
     const puzzle = this.cloneGrid(solution);
-    
-    const cellsToRemove = this.getCellsToRemove(difficulty);
-    const positions = this.getAllPositions();
-    const shuffledPositions = this.shuffleArray(positions);
-    
+    const shuffledPositions = random.shuffle(positions);
+
     let removed = 0;
-    for (const pos of shuffledPositions) {
-      if (removed >= cellsToRemove) break;
-      
+    for (let i = 0; i < shuffledPositions.length; i++) {
+      if (removed >= maxCellsToRemove) break;
+
+      const pos = shuffledPositions[i];
       const backup = puzzle[pos.row][pos.col];
       puzzle[pos.row][pos.col] = null;
-      
+
       // Check if puzzle still has unique solution
-      if (this.hasUniqueSolution(puzzle)) {
+      if (this.hasUniqueSolution(puzzle, constraints)) {
         removed++;
       } else {
         // Restore the number if it makes the puzzle unsolvable or non-unique
         puzzle[pos.row][pos.col] = backup;
       }
+
+      yield this.getGenerationProgress(attempt, (i + 1) / shuffledPositions.length);
     }
-    
-    return { puzzle, solution };
+
+    return puzzle;
   }
 
-  private static getCellsToRemove(difficulty: Difficulty): number {
+  private static getGenerationProgress(attempt: number, attemptProgress: number): GenerationProgress {
+    return { attempt: attempt + 1, attemptProgress };
+  }
+
+  /**
+   * Upper bound on removed cells; the grade decides whether the result is kept.
+   * The 9x9 counts scale with the number of cells for other sizes and for
+   * Samurai boards.
+   */
+  private static getMaxCellsToRemove(difficulty: Difficulty, size: number, cellCount: number): number {
+    const cellRatio = cellCount / 81;
     switch (difficulty) {
-      case 'easy': return 40; // Remove 40 cells (easy)
-      case 'medium': return 50; // Remove 50 cells (medium)
-      case 'hard': return 60; // Remove 60 cells (hard)
-      default: return 40;
+      case 'easy': return Math.round(45 * cellRatio);
+      // 16x16 grids need guessing well before 69% blanks, so medium keeps more givens
+      case 'medium': return Math.round((size === 16 ? 47 : 56) * cellRatio);
+      case 'hard': return Math.round(64 * cellRatio); // Effectively "as many as uniqueness allows"
+      default: return Math.round(45 * cellRatio);
     }
   }
 
-  private static getAllPositions(): Position[] {
+  /**
+   * How many bands a grade is away from the target; puzzles that need
+   * guessing sit one band beyond hard
+   */
+  private static getGradeDistance(grade: PuzzleGrade, difficulty: Difficulty): number {
+    const gradeRank = grade.requiresGuessing
+      ? this.DIFFICULTY_RANK.hard + 1
+      : this.DIFFICULTY_RANK[grade.difficulty];
+    return Math.abs(gradeRank - this.DIFFICULTY_RANK[difficulty]);
+  }
+
+  private static getAllPositions(size: number): Position[] {
     const positions: Position[] = [];
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
         positions.push({ row, col });
       }
     }
     return positions;
   }
 
-  private static hasUniqueSolution(grid: SudokuGrid): boolean {
-    const solutions: SudokuGrid[] = [];
-    this.findAllSolutions(this.cloneGrid(grid), solutions, 2); // Stop after finding 2 solutions
-    return solutions.length === 1;
+  // Every cell but the holes of a Samurai board
+  private static getPlayablePositions(size: number, constraints: Constraint[]): Position[] {
+    return this.getAllPositions(size).filter(({ row, col }) => Constraints.isPlayable(constraints, size, row, col));
   }
 
-  private static findAllSolutions(grid: SudokuGrid, solutions: SudokuGrid[], maxSolutions: number): void {
-    if (solutions.length >= maxSolutions) return;
-    
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
-        if (grid[row][col] === null) {
-          for (let num = 1; num <= 9; num++) {
-            if (this.isValidMove(grid, row, col, num as CellValue)) {
-              grid[row][col] = num as CellValue;
-              this.findAllSolutions(grid, solutions, maxSolutions);
-              grid[row][col] = null;
-            }
-          }
-          return;
-        }
-      }
-    }
-    
-    // Found a complete solution
-    solutions.push(this.cloneGrid(grid));
+  // A check that runs out of budget counts as not unique, which only
+  // costs a removal; it keeps near-minimal 16x16 grids from stalling
+  private static hasUniqueSolution(grid: SudokuGrid, constraints: Constraint[]): boolean {
+    // Stop after finding 2 solutions
+    return BitmaskSolver.countSolutions(grid, 2, { constraints, maxNodes: this.UNIQUENESS_NODE_BUDGET }) === 1;
   }
 
   /**
-   * Utility function to shuffle an array
+   * Finds up to maxSolutions solutions of a puzzle
    */
-  private static shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  static findSolutions(grid: SudokuGrid, maxSolutions: number, constraints?: Constraint[]): SudokuGrid[] {
+    return BitmaskSolver.findSolutions(grid, maxSolutions, { constraints });
   }
 
   /**
-   * Gets a hint for the player (finds next logical move)
+   * Gets the candidates hints work from: the player's notes where they still
+   * allow the right digit, otherwise every digit the rules allow
    */
-  static getHint(grid: SudokuGrid, solution: SudokuGrid): Position | null {
+  static getHintCandidates(
+    grid: SudokuGrid,
+    solution: SudokuGrid,
+    notes: NoteGrid,
+    constraints: Constraint[] = Constraints.getClassic(grid.length)
+  ): NoteGrid {
+    return this.getCandidates(grid, constraints).map((rowCandidates, row) =>
+      rowCandidates.map((candidates, col) => {
+        const cellNotes = notes[row][col];
+        return cellNotes.includes(solution[row][col]!)
+          ? candidates.filter(digit => cellNotes.includes(digit))
+          : candidates;
+      })
+    );
+  }
+
+  /**
+   * Gets a hint for the player: a wrong entry first, then the easiest
+   * logical step from the hint candidates, and a plain reveal only when no
+   * technique applies
+   */
+  static getHint(
+    grid: SudokuGrid,
+    solution: SudokuGrid,
+    notes: NoteGrid,
+    constraints: Constraint[] = Constraints.getClassic(grid.length)
+  ): Hint | null {
     const emptyCells: Position[] = [];
-    
-    for (let row = 0; row < this.GRID_SIZE; row++) {
-      for (let col = 0; col < this.GRID_SIZE; col++) {
-        if (grid[row][col] === null) {
-          emptyCells.push({ row, col });
+
+    for (let row = 0; row < grid.length; row++) {
+      for (let col = 0; col < grid.length; col++) {
+        const value = grid[row][col];
+        if (value === null) {
+          if (Constraints.isPlayable(constraints, grid.length, row, col)) emptyCells.push({ row, col });
+        } else if (value !== solution[row][col]) {
+          // Deductions from a wrong grid would be misleading
+          return { kind: 'mistake', stage: 1, position: { row, col } };
         }
       }
     }
-    
+
     if (emptyCells.length === 0) return null;
-    
-    // Return a random empty cell that needs to be filled
-    const randomIndex = Math.floor(Math.random() * emptyCells.length);
-    return emptyCells[randomIndex];
+
+    const candidates = this.getHintCandidates(grid, solution, notes, constraints);
+    const step = LogicalSolver.getNextStep(grid, constraints, candidates);
+    if (step) {
+      return { kind: 'technique', stage: 1, step };
+    }
+
+    const position = emptyCells[0];
+    return {
+      kind: 'reveal',
+      stage: 1,
+      placement: { position, value: solution[position.row][position.col]! },
+    };
   }
-}
\ No newline at end of file
+}
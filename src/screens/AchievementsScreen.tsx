@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+} from 'react-native';
+import { Achievements } from '../game/Achievements';
+import { Storage } from '../utils/Storage';
+import { Achievement, DailyStreak, GameStatsByMode, UnlockedAchievements } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface AchievementsScreenProps {
+  onBack: () => void;
+}
+
+export const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ onBack }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [unlocked, setUnlocked] = useState<UnlockedAchievements>({});
+  const [totals, setTotals] = useState<{ stats: GameStatsByMode; streak: DailyStreak } | null>(null);
+
+  useEffect(() => {
+    loadAchievements();
+  }, []);
+
+  const loadAchievements = async () => {
+    // Totals reached before achievements existed unlock on the first visit
+    await Achievements.check();
+    const [unlockedAchievements, stats, streak] = await Promise.all([
+      Storage.getUnlockedAchievements(),
+      Storage.getGameStats(),
+      Storage.getDailyStreak(),
+    ]);
+    setUnlocked(unlockedAchievements);
+    setTotals({ stats, streak });
+  };
+
+  const formatDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+  };
+
+  const renderAchievement = (achievement: Achievement) => {
+    const unlockedAt = unlocked[achievement.id];
+    const isUnlocked = unlockedAt !== undefined;
+    const { current, goal } = totals
+      ? Achievements.getProgress(achievement, totals.stats, totals.streak)
+      : { current: 0, goal: 1 };
+
+    return (
+      <View key={achievement.id} style={[styles.card, !isUnlocked && styles.lockedCard]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.title, !isUnlocked && styles.lockedText]}>{achievement.title}</Text>
+          <Text style={isUnlocked ? styles.unlockedDate : styles.lockedLabel}>
+            {isUnlocked ? formatDate(unlockedAt) : 'Locked'}
+          </Text>
+        </View>
+        <Text style={styles.description}>{achievement.description}</Text>
+        {!isUnlocked && (
+          <View style={styles.progressRow}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${(current / goal) * 100}%` }]} />
+            </View>
+            <Text style={styles.progressText}>{current}/{goal}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const unlockedCount = Achievements.ALL.filter(({ id }) => unlocked[id] !== undefined).length;
+  // Unlocked first, newest first, then locked in list order
+  const sorted = [...Achievements.ALL].sort((a, b) => (unlocked[b.id] ?? 0) - (unlocked[a.id] ?? 0));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Achievements</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.summary}>
+          {unlockedCount} of {Achievements.ALL.length} unlocked
+        </Text>
+        {sorted.map(renderAchievement)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: 20,
+  },
+  summary: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    marginBottom: 10,
+  },
+  card: {
+    padding: 15,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.warning,
+    marginBottom: 10,
+  },
+  lockedCard: {
+    borderLeftColor: colors.disabledText,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  lockedText: {
+    color: colors.textMuted,
+  },
+  unlockedDate: {
+    color: colors.warning,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  lockedLabel: {
+    color: colors.textFaint,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+    marginRight: 10,
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: colors.accent,
+  },
+  progressText: {
+    color: colors.textMuted,
+    fontSize: 12,
+    minWidth: 50,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  Dimensions,
+} from 'react-native';
+import { DailyChallenge } from '../game/DailyChallenge';
+import { Storage } from '../utils/Storage';
+import { DailyResult, DailyStreak, Difficulty } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface DailyScreenProps {
+  onPlayDaily: (date: string, isReplay: boolean) => void;
+  onBack: () => void;
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+const CALENDAR_PADDING = 20;
+const DAY_SIZE = (screenWidth - CALENDAR_PADDING * 2) / 7;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export const DailyScreen: React.FC<DailyScreenProps> = ({
+  onPlayDaily,
+  onBack,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const today = DailyChallenge.getDateKey();
+  const todayDate = DailyChallenge.parseDateKey(today);
+
+  const [results, setResults] = useState<Record<string, DailyResult>>({});
+  const [streak, setStreak] = useState<DailyStreak>({ current: 0, longest: 0, lastCompletedDate: null });
+  const [visibleMonth, setVisibleMonth] = useState({
+    year: todayDate.getFullYear(),
+    month: todayDate.getMonth(),
+  });
+
+  useEffect(() => {
+    loadDailyData();
+  }, []);
+
+  const loadDailyData = async () => {
+    const [dailyResults, dailyStreak] = await Promise.all([
+      Storage.getDailyResults(),
+      Storage.getDailyStreak(today),
+    ]);
+    setResults(dailyResults);
+    setStreak(dailyStreak);
+  };
+
+  const handlePlayToday = () => {
+    // Once today is completed, playing it again is a replay
+    onPlayDaily(today, results[today]?.completed ?? false);
+  };
+
+  const handleDayPress = (date: string) => {
+    if (date === today) {
+      handlePlayToday();
+    } else {
+      onPlayDaily(date, true);
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(visibleMonth.year, visibleMonth.month + offset, 1);
+    setVisibleMonth({ year: date.getFullYear(), month: date.getMonth() });
+  };
+
+  const isCurrentMonth =
+    visibleMonth.year === todayDate.getFullYear() && visibleMonth.month === todayDate.getMonth();
+
+  const formatTime = (timeInSeconds: number): string => {
+    const minutes = Math.floor(timeInSeconds / 60);
+    const seconds = timeInSeconds % 60;
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const getDifficultyColor = (difficulty: Difficulty): string =>
+    colors[difficulty];
+
+  const renderTodayCard = () => {
+    const todayResult = results[today];
+    const difficulty = DailyChallenge.getDifficulty(today);
+
+    return (
+      <View style={styles.todayCard}>
+        <Text style={styles.todayLabel}>Today's Puzzle</Text>
+        <Text style={[styles.todayDifficulty, { color: getDifficultyColor(difficulty) }]}>
+          {difficulty.toUpperCase()}
+        </Text>
+        {todayResult?.completed && (
+          <Text style={styles.todayResult}>
+            Solved in {formatTime(todayResult.timeElapsed)} · {todayResult.mistakes} mistakes · {todayResult.hintsUsed} hints
+          </Text>
+        )}
+        <TouchableOpacity style={styles.playButton} onPress={handlePlayToday} activeOpacity={0.8}>
+          <Text style={styles.playButtonText}>
+            {todayResult?.completed ? 'PLAY AGAIN' : 'PLAY'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderDay = (day: number | null, index: number) => {
+    if (day === null) {
+      return <View key={`blank-${index}`} style={styles.day} />;
+    }
+
+    const date = DailyChallenge.getDateKey(new Date(visibleMonth.year, visibleMonth.month, day));
+    const result = results[date];
+    const isFuture = date > today;
+
+    return (
+      <TouchableOpacity
+        key={date}
+        style={[
+          styles.day,
+          result?.completed && styles.completedDay,
+          result && !result.completed && styles.attemptedDay,
+          date === today && styles.today,
+        ]}
+        onPress={() => handleDayPress(date)}
+        disabled={isFuture}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.dayText, isFuture && styles.futureDayText]}>{day}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderCalendar = () => {
+    const firstWeekday = new Date(visibleMonth.year, visibleMonth.month, 1).getDay();
+    const daysInMonth = new Date(visibleMonth.year, visibleMonth.month + 1, 0).getDate();
+    const days: (number | null)[] = [
+      ...Array<null>(firstWeekday).fill(null),
+      ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+    ];
+
+    return (
+      <View style={styles.calendar}>
+        <View style={styles.monthHeader}>
+          <TouchableOpacity style={styles.monthButton} onPress={() => changeMonth(-1)}>
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>
+            {MONTH_NAMES[visibleMonth.month]} {visibleMonth.year}
+          </Text>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => changeMonth(1)}
+            disabled={isCurrentMonth}
+          >
+            <Text style={[styles.monthButtonText, isCurrentMonth && styles.futureDayText]}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.week}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <View key={index} style={styles.weekdayLabel}>
+              <Text style={styles.weekdayText}>{label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.week}>
+          {days.map(renderDay)}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Daily Challenge</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {/* Streak */}
+      <View style={styles.streakContainer}>
+        <View style={styles.streakBox}>
+          <Text style={styles.streakValue}>{streak.current}</Text>
+          <Text style={styles.streakLabel}>Current Streak</Text>
+        </View>
+        <View style={styles.streakBox}>
+          <Text style={styles.streakValue}>{streak.longest}</Text>
+          <Text style={styles.streakLabel}>Longest Streak</Text>
+        </View>
+      </View>
+
+      {renderTodayCard()}
+      {renderCalendar()}
+
+      <Text style={styles.footnote}>Past days can be replayed; they don't count toward your streak.</Text>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  streakContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 20,
+  },
+  streakBox: {
+    alignItems: 'center',
+  },
+  streakValue: {
+    color: colors.text,
+    fontSize: 32,
+    fontWeight: 'bold',
+  },
+  streakLabel: {
+    color: colors.textMuted,
+    fontSize: 14,
+  },
+  todayCard: {
+    marginHorizontal: 20,
+    padding: 20,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+    alignItems: 'center',
+  },
+  todayLabel: {
+    color: colors.textMuted,
+    fontSize: 14,
+  },
+  todayDifficulty: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginVertical: 5,
+  },
+  todayResult: {
+    color: colors.text,
+    fontSize: 14,
+    marginBottom: 5,
+  },
+  playButton: {
+    backgroundColor: colors.danger,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 40,
+    marginTop: 10,
+  },
+  playButtonText: {
+    color: colors.onAccent,
+    fontSize: 18,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  calendar: {
+    paddingHorizontal: CALENDAR_PADDING,
+    paddingTop: 20,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  monthButton: {
+    paddingHorizontal: 15,
+    paddingVertical: 5,
+  },
+  monthButtonText: {
+    color: colors.text,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  monthTitle: {
+    color: colors.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  week: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekdayLabel: {
+    width: DAY_SIZE,
+    alignItems: 'center',
+    paddingVertical: 5,
+  },
+  weekdayText: {
+    color: colors.textFaint,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  day: {
+    width: DAY_SIZE,
+    height: DAY_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: DAY_SIZE / 2,
+  },
+  completedDay: {
+    backgroundColor: colors.success,
+  },
+  attemptedDay: {
+    backgroundColor: colors.warning,
+  },
+  today: {
+    borderWidth: 2,
+    borderColor: colors.text,
+  },
+  dayText: {
+    color: colors.text,
+    fontSize: 16,
+  },
+  futureDayText: {
+    color: colors.textFaint,
+  },
+  footnote: {
+    color: colors.textFaint,
+    fontSize: 12,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,56 +8,111 @@ import {
   Alert,
   ScrollView,
   StatusBar,
+  Share,
 } from 'react-native';
 import { SudokuBoard } from '../components/SudokuBoard';
 import { NumberPad } from '../components/NumberPad';
+import { HintPanel, getHintOverlay } from '../components/HintPanel';
+import { ZoomableView } from '../components/ZoomableView';
+import { AchievementToast } from '../components/AchievementToast';
 import { AdManager, showInterstitialWithFrequencyControl, adFrequencyManager } from '../components/AdManager';
 import { GameManager } from '../game/GameManager';
+import { LogicalSolver } from '../game/LogicalSolver';
+import { PuzzleFormat } from '../game/PuzzleFormat';
+import { GridShape } from '../game/GridShape';
+import { Constraints } from '../game/Constraints';
+import { GameModes } from '../game/GameModes';
 import { 
+  Achievement,
   Position, 
   CellValue, 
   GameState, 
   ValidationResult, 
   GameData,
-  Difficulty 
+  Difficulty,
+  PuzzleGrade,
+  Hint,
+  UserPreferences,
+  GridSize,
+  SymbolSet,
+  Variant,
+  ConstraintType
 } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
 
 interface GameScreenProps {
   gameManager: GameManager;
+  preferences: UserPreferences;
   onBackToMenu: () => void;
-  onGameComplete: (gameData: GameData) => void;
+  // Starts a new game through the app, which shows generation progress
+  onPlayAgain: (
+    difficulty: Difficulty,
+    size: GridSize,
+    symbols: SymbolSet,
+    variant: Variant,
+    constraints: ConstraintType[]
+  ) => void;
+  // Records the result and resolves to the achievements it unlocked
+  onGameComplete: (gameData: GameData) => Promise<Achievement[]>;
+  onShowSettings: () => void;
 }
 
 export const GameScreen: React.FC<GameScreenProps> = ({
   gameManager,
+  preferences,
   onBackToMenu,
+  onPlayAgain,
   onGameComplete,
+  onShowSettings,
 }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
   const [selectedCell, setSelectedCell] = useState<Position | null>(null);
   const [selectedNumber, setSelectedNumber] = useState<CellValue>(null);
   const [gameState, setGameState] = useState<GameState>('menu');
   const [grid, setGrid] = useState(gameManager.getCurrentGrid() || []);
   const [originalGrid, setOriginalGrid] = useState(gameManager.getOriginalGrid() || []);
+  const [notes, setNotes] = useState(gameManager.getNotes() || []);
+  const [notesMode, setNotesMode] = useState(false);
   const [conflicts, setConflicts] = useState<Position[]>([]);
+  const [brokenCages, setBrokenCages] = useState<number[]>([]);
+  const [wrongCells, setWrongCells] = useState<Position[]>([]);
   const [timeElapsed, setTimeElapsed] = useState(0);
   const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
+  const [grade, setGrade] = useState<PuzzleGrade | null>(null);
   const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [unlockedAchievements, setUnlockedAchievements] = useState<Achievement[]>([]);
+  const symbols = gameManager.getSymbols();
+  const cages = gameManager.getCages();
+  const regions = gameManager.getRegions();
+  const layout = gameManager.getLayout();
+  const constraints = gameManager.getConstraints();
+  const extraRules = constraints?.filter(({ type }) => !Constraints.CLASSIC.includes(type)) ?? [];
 
   useEffect(() => {
     // Set up game manager callbacks
     gameManager.setOnGameStateChange(handleGameStateChange);
     gameManager.setOnGridUpdate(handleGridUpdate);
+    gameManager.setOnNotesUpdate(handleNotesUpdate);
     gameManager.setOnTimeUpdate(handleTimeUpdate);
     gameManager.setOnGameComplete(handleGameComplete);
     gameManager.setOnValidationUpdate(handleValidationUpdate);
+    gameManager.setOnHintUpdate(handleHintUpdate);
 
     // Initialize state
     setGameState(gameManager.getGameState());
     setGrid(gameManager.getCurrentGrid() || []);
     setOriginalGrid(gameManager.getOriginalGrid() || []);
+    setNotes(gameManager.getNotes() || []);
     setDifficulty(gameManager.getDifficulty());
+    setGrade(gameManager.getGrade());
     setTimeElapsed(gameManager.getTimeElapsed());
     setCanUndo(gameManager.canUndo());
+    setCanRedo(gameManager.canRedo());
 
     return () => {
       // Cleanup
@@ -72,6 +127,12 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   const handleGridUpdate = (newGrid: GameData['grid']) => {
     setGrid([...newGrid]);
     setCanUndo(gameManager.canUndo());
+    setCanRedo(gameManager.canRedo());
+    setGrade(gameManager.getGrade());
+  };
+
+  const handleNotesUpdate = (newNotes: GameData['notes']) => {
+    setNotes(newNotes.map(row => [...row]));
   };
 
   const handleTimeUpdate = (time: number) => {
@@ -79,25 +140,52 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   };
 
   const handleGameComplete = async (gameData: GameData) => {
+    // Record the result before the ad so new achievements are announced straight away
+    setUnlockedAchievements(await onGameComplete(gameData));
+
     // Track game completion for ad frequency
     adFrequencyManager.onGameCompleted();
     
     // Show interstitial ad if appropriate
     await showInterstitialWithFrequencyControl();
     
-    Alert.alert(
-      'Congratulations!',
-      `You completed the ${gameData.difficulty} puzzle in ${formatTime(gameData.timeElapsed)}!`,
-      [
-        { text: 'Play Again', onPress: () => gameManager.startNewGame(gameData.difficulty) },
-        { text: 'Main Menu', onPress: onBackToMenu },
-      ]
+    if (gameData.daily) {
+      Alert.alert(
+        'Daily Challenge Complete!',
+        `You solved the ${gameData.daily.date} puzzle in ${formatTime(gameData.timeElapsed)}!`,
+        [{ text: 'Main Menu', onPress: onBackToMenu }]
+      );
+    } else {
+      Alert.alert(
+        'Congratulations!',
+        `You completed the ${gameData.difficulty} puzzle in ${formatTime(gameData.timeElapsed)}!`,
+        [
+          {
+            text: 'Play Again',
+            onPress: () => handlePlayAgain(gameData),
+          },
+          { text: 'Main Menu', onPress: onBackToMenu },
+        ]
+      );
+    }
+  };
+
+  // Another puzzle of the same kind as the one just completed
+  const handlePlayAgain = (gameData: GameData) => {
+    const { size, variant } = GameModes.of(gameData);
+    onPlayAgain(
+      gameData.difficulty,
+      size,
+      gameData.symbols ?? 'digits',
+      variant,
+      gameData.constraints ?? Constraints.CLASSIC
     );
-    onGameComplete(gameData);
   };
 
   const handleValidationUpdate = (result: ValidationResult) => {
     setConflicts(result.conflicts);
+    setBrokenCages(result.brokenCages ?? []);
+    setWrongCells(result.wrongCells ?? []);
   };
 
   const handleCellPress = (row: number, col: number) => {
@@ -121,6 +209,10 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     if (!selectedCell || gameState !== 'playing') return;
     
     const { row, col } = selectedCell;
+    if (notesMode && number !== null) {
+      gameManager.toggleNote(row, col, number);
+      return;
+    }
     gameManager.makeMove(row, col, number);
     setSelectedNumber(number);
   };
@@ -137,6 +229,10 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     gameManager.undoMove();
   };
 
+  const handleRedo = () => {
+    gameManager.redoMove();
+  };
+
   const handlePause = () => {
     if (gameState === 'playing') {
       gameManager.pauseGame();
@@ -145,32 +241,76 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     }
   };
 
-  const handleHint = () => {
-    const hintPosition = gameManager.getHint();
-    if (hintPosition) {
-      setSelectedCell(hintPosition);
-      const solution = gameManager.getSolution();
-      if (solution) {
-        const hintValue = solution[hintPosition.row][hintPosition.col];
-        Alert.alert(
-          'Hint',
-          `Try placing ${hintValue} in the selected cell!`,
-          [{ text: 'OK' }]
-        );
+  const handleShare = () => {
+    const gameData = gameManager.getGameData();
+    if (!gameData) return;
+
+    const share = async (message: string) => {
+      try {
+        await Share.share({ message });
+      } catch (error) {
+        console.error('Error sharing puzzle:', error);
       }
-    } else {
+    };
+
+    // Only JSON records rules beyond the classic ones
+    if (gameData.constraints) {
+      Alert.alert(
+        'Share Puzzle',
+        'Puzzles with extra rules are shared as JSON, which also keeps your progress and notes.',
+        [
+          { text: 'JSON', onPress: () => share(PuzzleFormat.toJson(gameData)) },
+          { text: 'Cancel', style: 'cancel' },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Share Puzzle',
+      'Choose a format. JSON also keeps your progress and notes.',
+      [
+        { text: 'Line', onPress: () => share(PuzzleFormat.toLine(gameData.originalGrid)) },
+        { text: '.sdk', onPress: () => share(PuzzleFormat.toSdk(gameData.originalGrid, `${gameData.difficulty} puzzle`)) },
+        { text: 'JSON', onPress: () => share(PuzzleFormat.toJson(gameData)) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleHint = () => {
+    const newHint = gameManager.getHint();
+    if (!newHint) {
       Alert.alert('No hints available', 'The puzzle is already complete!');
     }
   };
 
+  const handleHintUpdate = (newHint: Hint | null) => {
+    setHint(newHint);
+  };
+
   const handleBackPress = () => {
     if (gameState === 'playing') {
       Alert.alert(
         'Exit Game',
-        'Are you sure you want to exit? Your progress will be lost.',
+        'Your progress will be saved so you can continue later. Abandoned games only go into your history.',
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Exit', onPress: onBackToMenu, style: 'destructive' },
+          {
+            text: 'Abandon',
+            style: 'destructive',
+            onPress: async () => {
+              await gameManager.abandonGame();
+              onBackToMenu();
+            },
+          },
+          {
+            text: 'Exit',
+            onPress: () => {
+              gameManager.pauseGame();
+              onBackToMenu();
+            },
+          },
         ]
       );
     } else {
@@ -178,30 +318,65 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     }
   };
 
+  const formatGrade = (puzzleGrade: PuzzleGrade): string => {
+    const technique = puzzleGrade.hardestTechnique
+      ? LogicalSolver.getTechniqueName(puzzleGrade.hardestTechnique)
+      : 'Givens only';
+    return `${technique} · ${puzzleGrade.score}`;
+  };
+
   const formatTime = (timeInSeconds: number): string => {
     const minutes = Math.floor(timeInSeconds / 60);
     const seconds = timeInSeconds % 60;
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const getDifficultyColor = (diff: Difficulty | null): string => {
-    switch (diff) {
-      case 'easy': return '#27AE60';
-      case 'medium': return '#F39C12';
-      case 'hard': return '#E74C3C';
-      default: return '#BDC3C7';
-    }
-  };
+  const getDifficultyColor = (diff: Difficulty | null): string =>
+    diff ? colors[diff] : colors.textMuted;
+
+  // Samurai boards are too dense to play unzoomed, so they get pinch and pan
+  const renderBoard = () => (
+    <SudokuBoard
+      grid={grid}
+      originalGrid={originalGrid}
+      notes={notes}
+      conflicts={conflicts}
+      onCellPress={handleCellPress}
+      selectedCell={selectedCell}
+      isGameCompleted={gameState === 'completed'}
+      errorCheckMode={preferences.errorCheckMode}
+      wrongCells={wrongCells}
+      hintOverlay={hint ? getHintOverlay(hint, grid.length, regions ?? undefined, layout ?? undefined) : null}
+      symbols={symbols}
+      cages={cages}
+      brokenCages={brokenCages}
+      regions={regions}
+      constraints={constraints}
+      layout={layout}
+    />
+  );
 
   if (gameState === 'paused') {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="light-content" backgroundColor="#2C3E50" />
+        <StatusBar barStyle="light-content" backgroundColor={colors.background} />
         <View style={styles.pausedContainer}>
           <Text style={styles.pausedTitle}>Game Paused</Text>
+          {gameManager.getSeed() !== null && (
+            <Text style={styles.puzzleId}>Puzzle #{gameManager.getSeed()}</Text>
+          )}
           <TouchableOpacity style={styles.resumeButton} onPress={handlePause}>
             <Text style={styles.resumeButtonText}>Resume</Text>
           </TouchableOpacity>
+          {/* The share formats only describe classic 9x9 puzzles */}
+          {grid.length === GridShape.DEFAULT_SIZE && !cages && !regions && (
+            <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+              <Text style={styles.menuButtonText}>Share Puzzle</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.shareButton} onPress={onShowSettings}>
+            <Text style={styles.menuButtonText}>Settings</Text>
+          </TouchableOpacity>
           <TouchableOpacity style={styles.menuButton} onPress={handleBackPress}>
             <Text style={styles.menuButtonText}>Main Menu</Text>
           </TouchableOpacity>
@@ -212,7 +387,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="light-content" backgroundColor="#2C3E50" />
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
       
       {/* Header */}
       <View style={styles.header}>
@@ -221,10 +396,20 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         </TouchableOpacity>
         
         <View style={styles.gameInfo}>
-          <Text style={[styles.difficulty, { color: getDifficultyColor(difficulty) }]}>
-            {difficulty?.toUpperCase() || 'SUDOKU'}
+          <Text style={[styles.difficulty, { color: getDifficultyColor(grade?.difficulty ?? difficulty) }]}>
+            {(grade?.difficulty ?? difficulty)?.toUpperCase() || 'SUDOKU'}
           </Text>
-          <Text style={styles.timer}>{formatTime(timeElapsed)}</Text>
+          {grade && <Text style={styles.gradeDetail}>{formatGrade(grade)}</Text>}
+          {cages && <Text style={styles.gradeDetail}>Killer · {cages.length} cages</Text>}
+          {regions && <Text style={styles.gradeDetail}>Jigsaw</Text>}
+          {layout && <Text style={styles.gradeDetail}>Samurai · pinch to zoom</Text>}
+          {extraRules.length > 0 && (
+            <Text style={styles.gradeDetail}>{extraRules.map(({ type }) => Constraints.getName(type)).join(' · ')}</Text>
+          )}
+          {gameManager.getDailyChallenge() && (
+            <Text style={styles.gradeDetail}>Daily · {gameManager.getDailyChallenge()!.date}</Text>
+          )}
+          {preferences.showTimer && <Text style={styles.timer}>{formatTime(timeElapsed)}</Text>}
         </View>
         
         <TouchableOpacity style={styles.pauseButton} onPress={handlePause}>
@@ -235,17 +420,19 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       <ScrollView contentContainerStyle={styles.scrollContent}>
         {/* Game Board */}
         <View style={styles.boardContainer}>
-          <SudokuBoard
-            grid={grid}
-            originalGrid={originalGrid}
-            conflicts={conflicts}
-            onCellPress={handleCellPress}
-            selectedCell={selectedCell}
-            isGameCompleted={gameState === 'completed'}
-            showErrors={true}
-          />
+          {layout ? <ZoomableView>{renderBoard()}</ZoomableView> : renderBoard()}
         </View>
 
+        {hint && (
+          <HintPanel
+            hint={hint}
+            onNext={gameManager.advanceHint}
+            onApply={gameManager.applyHint}
+            onClose={gameManager.dismissHint}
+            symbols={symbols}
+          />
+        )}
+
         {/* Game Controls */}
         <View style={styles.controlsContainer}>
           <View style={styles.topControls}>
@@ -259,6 +446,16 @@ export const GameScreen: React.FC<GameScreenProps> = ({
               </Text>
             </TouchableOpacity>
             
+            <TouchableOpacity
+              style={[styles.controlButton, !canRedo && styles.disabledButton]}
+              onPress={handleRedo}
+              disabled={!canRedo}
+            >
+              <Text style={[styles.controlButtonText, !canRedo && styles.disabledButtonText]}>
+                Redo
+              </Text>
+            </TouchableOpacity>
+            
             <TouchableOpacity style={styles.controlButton} onPress={handleHint}>
               <Text style={styles.controlButtonText}>Hint</Text>
             </TouchableOpacity>
@@ -270,6 +467,10 @@ export const GameScreen: React.FC<GameScreenProps> = ({
             onErasePress={handleErasePress}
             selectedNumber={selectedNumber}
             disabled={gameState !== 'playing'}
+            notesMode={notesMode}
+            onToggleNotes={() => setNotesMode(!notesMode)}
+            size={gameManager.getDigitCount()}
+            symbols={symbols}
           />
           
           {/* Banner Ad */}
@@ -279,14 +480,16 @@ export const GameScreen: React.FC<GameScreenProps> = ({
           />
         </View>
       </ScrollView>
+
+      <AchievementToast achievements={unlockedAchievements} onHidden={() => setUnlockedAchievements([])} />
     </SafeAreaView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#2C3E50',
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: 'row',
@@ -294,13 +497,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 20,
     paddingVertical: 10,
-    backgroundColor: '#34495E',
+    backgroundColor: colors.surface,
   },
   backButton: {
     padding: 10,
   },
   backButtonText: {
-    color: '#ECF0F1',
+    color: colors.text,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -311,8 +514,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  gradeDetail: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
   timer: {
-    color: '#ECF0F1',
+    color: colors.text,
     fontSize: 20,
     fontWeight: 'bold',
     marginTop: 2,
@@ -321,7 +529,7 @@ const styles = StyleSheet.create({
     padding: 10,
   },
   pauseButtonText: {
-    color: '#ECF0F1',
+    color: colors.text,
     fontSize: 20,
   },
   scrollContent: {
@@ -333,33 +541,33 @@ const styles = StyleSheet.create({
   },
   controlsContainer: {
     flex: 1,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.controlsBackground,
     marginTop: 20,
   },
   topControls: {
     flexDirection: 'row',
     justifyContent: 'space-around',
     paddingVertical: 15,
-    backgroundColor: '#ECF0F1',
+    backgroundColor: colors.controlsSurface,
   },
   controlButton: {
-    backgroundColor: '#3498DB',
+    backgroundColor: colors.accent,
     paddingVertical: 10,
     paddingHorizontal: 20,
     borderRadius: 8,
     minWidth: 80,
   },
   controlButtonText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
     fontSize: 16,
     fontWeight: '600',
     textAlign: 'center',
   },
   disabledButton: {
-    backgroundColor: '#BDC3C7',
+    backgroundColor: colors.disabled,
   },
   disabledButtonText: {
-    color: '#7F8C8D',
+    color: colors.disabledText,
   },
   pausedContainer: {
     flex: 1,
@@ -370,29 +578,42 @@ const styles = StyleSheet.create({
   pausedTitle: {
     fontSize: 32,
     fontWeight: 'bold',
-    color: '#ECF0F1',
+    color: colors.text,
     marginBottom: 40,
   },
+  puzzleId: {
+    color: colors.textMuted,
+    fontSize: 14,
+    marginTop: -30,
+    marginBottom: 30,
+  },
   resumeButton: {
-    backgroundColor: '#27AE60',
+    backgroundColor: colors.success,
     paddingVertical: 15,
     paddingHorizontal: 40,
     borderRadius: 8,
     marginBottom: 20,
   },
   resumeButtonText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
     fontSize: 18,
     fontWeight: 'bold',
   },
+  shareButton: {
+    backgroundColor: colors.accent,
+    paddingVertical: 12,
+    paddingHorizontal: 30,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
   menuButton: {
-    backgroundColor: '#E74C3C',
+    backgroundColor: colors.danger,
     paddingVertical: 12,
     paddingHorizontal: 30,
     borderRadius: 8,
   },
   menuButtonText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
     fontSize: 16,
     fontWeight: '600',
   },
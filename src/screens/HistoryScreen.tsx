@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+} from 'react-native';
+import { SudokuBoard } from '../components/SudokuBoard';
+import { ReplayScreen } from './ReplayScreen';
+import { Constraints } from '../game/Constraints';
+import { LogicalSolver } from '../game/LogicalSolver';
+import { Storage } from '../utils/Storage';
+import { Difficulty, GameHistoryEntry, GameOutcome } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface HistoryScreenProps {
+  onReplay: (entry: GameHistoryEntry) => void;
+  onBack: () => void;
+}
+
+type DateRange = 'all' | 'week' | 'month';
+
+const DIFFICULTY_FILTERS: { value: Difficulty | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+];
+
+const OUTCOME_FILTERS: { value: GameOutcome | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'abandoned', label: 'Abandoned' },
+];
+
+const DATE_FILTERS: { value: DateRange; label: string; days?: number }[] = [
+  { value: 'all', label: 'All Time' },
+  { value: 'week', label: '7 Days', days: 7 },
+  { value: 'month', label: '30 Days', days: 30 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onReplay, onBack }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [history, setHistory] = useState<GameHistoryEntry[] | null>(null);
+  const [difficultyFilter, setDifficultyFilter] = useState<Difficulty | 'all'>('all');
+  const [outcomeFilter, setOutcomeFilter] = useState<GameOutcome | 'all'>('all');
+  const [dateFilter, setDateFilter] = useState<DateRange>('all');
+  const [selectedEntry, setSelectedEntry] = useState<GameHistoryEntry | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+
+  useEffect(() => {
+    Storage.getGameHistory().then(setHistory);
+  }, []);
+
+  const filteredHistory = useMemo(() => {
+    const days = DATE_FILTERS.find(({ value }) => value === dateFilter)?.days;
+    const since = days === undefined ? 0 : Date.now() - days * DAY_MS;
+    return (history ?? []).filter(entry =>
+      (difficultyFilter === 'all' || entry.difficulty === difficultyFilter)
+      && (outcomeFilter === 'all' || entry.outcome === outcomeFilter)
+      && entry.endedAt >= since
+    );
+  }, [history, difficultyFilter, outcomeFilter, dateFilter]);
+
+  const formatTime = (timeInSeconds: number): string => {
+    const minutes = Math.floor(timeInSeconds / 60);
+    const seconds = timeInSeconds % 60;
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const formatDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+  };
+
+  // Size, variant and extra rules, for telling puzzles apart in the list
+  const getPuzzleLabel = (entry: GameHistoryEntry): string => {
+    const size = entry.layout?.gridSize ?? entry.originalGrid.length;
+    const variant = entry.cages ? ' Killer'
+      : entry.regions ? ' Jigsaw'
+      : entry.layout ? ' Samurai'
+      : '';
+    const rules = (entry.constraints ?? [])
+      .filter(type => !Constraints.CLASSIC.includes(type))
+      .map(type => ` · ${Constraints.getName(type)}`)
+      .join('');
+    const daily = entry.daily ? ` · Daily ${entry.daily.date}` : '';
+    return `${size}×${size}${variant}${rules}${daily}`;
+  };
+
+  const getOutcomeColor = (outcome: GameOutcome): string =>
+    outcome === 'completed' ? colors.success : colors.textFaint;
+
+  const renderFilter = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.filterRow}>
+      {options.map(({ value, label }) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.filterChip, isSelected && styles.selectedFilterChip]}
+            onPress={() => onSelect(value)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.filterChipText, isSelected && styles.selectedFilterChipText]}>{label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderStatBox = (label: string, value: string) => (
+    <View key={label} style={styles.statBox}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderEntry = (entry: GameHistoryEntry) => (
+    <TouchableOpacity
+      key={entry.id}
+      style={styles.entry}
+      onPress={() => setSelectedEntry(entry)}
+      activeOpacity={0.8}
+    >
+      <View style={[styles.difficultyMark, { backgroundColor: colors[entry.difficulty] }]} />
+      <View style={styles.entryText}>
+        <Text style={styles.entryTitle}>{entry.difficulty.toUpperCase()} · {getPuzzleLabel(entry)}</Text>
+        <Text style={styles.entryDetail}>
+          {formatDate(entry.endedAt)} · {formatTime(entry.timeElapsed)} · {entry.mistakes} mistakes · {entry.hintsUsed} hints
+        </Text>
+      </View>
+      <Text style={[styles.outcome, { color: getOutcomeColor(entry.outcome) }]}>
+        {entry.outcome === 'completed' ? 'Solved' : 'Abandoned'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderDetail = (entry: GameHistoryEntry) => {
+    const size = entry.originalGrid.length;
+    const constraints = Constraints.build(entry.constraints ?? Constraints.CLASSIC, size, entry.regions, entry.layout);
+    const technique = entry.grade?.hardestTechnique
+      ? LogicalSolver.getTechniqueName(entry.grade.hardestTechnique)
+      : null;
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.detailTitle}>{entry.difficulty.toUpperCase()} · {getPuzzleLabel(entry)}</Text>
+          <Text style={styles.entryDetail}>
+            Started {formatDate(entry.createdAt)} · {entry.outcome === 'completed' ? 'Solved' : 'Abandoned'} {formatDate(entry.endedAt)}
+          </Text>
+          {technique && <Text style={styles.entryDetail}>{technique} · {entry.grade?.score}</Text>}
+          <View style={styles.statRow}>
+            {renderStatBox('Time', formatTime(entry.timeElapsed))}
+            {renderStatBox('Moves', entry.moveHistory.length.toString())}
+            {renderStatBox('Mistakes', entry.mistakes.toString())}
+            {renderStatBox('Hints', entry.hintsUsed.toString())}
+          </View>
+          {entry.errorCheckMode === 'solution' && (
+            <Text style={styles.caption}>Checked against the solution</Text>
+          )}
+        </View>
+
+        {/* The board as the game was left */}
+        <SudokuBoard
+          grid={entry.grid}
+          originalGrid={entry.originalGrid}
+          conflicts={[]}
+          onCellPress={() => {}}
+          selectedCell={null}
+          isGameCompleted={entry.outcome === 'completed'}
+          errorCheckMode="off"
+          symbols={entry.symbols}
+          cages={entry.cages}
+          regions={entry.regions}
+          constraints={constraints}
+          layout={entry.layout}
+        />
+
+        <TouchableOpacity style={styles.replayButton} onPress={() => setIsWatching(true)} activeOpacity={0.8}>
+          <Text style={styles.replayButtonText}>Watch Replay</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.replayButton} onPress={() => onReplay(entry)} activeOpacity={0.8}>
+          <Text style={styles.replayButtonText}>Replay Puzzle</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  const renderList = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      {renderFilter(DIFFICULTY_FILTERS, difficultyFilter, setDifficultyFilter)}
+      {renderFilter(OUTCOME_FILTERS, outcomeFilter, setOutcomeFilter)}
+      {renderFilter(DATE_FILTERS, dateFilter, setDateFilter)}
+
+      {history && filteredHistory.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {history.length === 0 ? 'Finished and abandoned games will appear here.' : 'No games match these filters.'}
+        </Text>
+      ) : (
+        <View style={styles.card}>
+          {filteredHistory.map(renderEntry)}
+        </View>
+      )}
+    </ScrollView>
+  );
+
+  if (selectedEntry && isWatching) {
+    return <ReplayScreen game={selectedEntry} onBack={() => setIsWatching(false)} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={selectedEntry ? () => setSelectedEntry(null) : onBack}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{selectedEntry ? 'Game' : 'History'}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {selectedEntry ? renderDetail(selectedEntry) : renderList()}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: 20,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  filterChip: {
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    backgroundColor: colors.surface,
+  },
+  selectedFilterChip: {
+    backgroundColor: colors.accent,
+  },
+  filterChipText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  selectedFilterChipText: {
+    color: colors.onAccent,
+  },
+  emptyText: {
+    color: colors.textFaint,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    padding: 15,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+    marginTop: 5,
+    marginBottom: 15,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.background,
+  },
+  difficultyMark: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+    marginRight: 10,
+  },
+  entryText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  entryTitle: {
+    color: colors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  entryDetail: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  outcome: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  detailTitle: {
+    color: colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingTop: 15,
+  },
+  statBox: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  caption: {
+    color: colors.textFaint,
+    fontSize: 12,
+    marginTop: 8,
+  },
+  replayButton: {
+    backgroundColor: colors.accent,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  replayButtonText: {
+    color: colors.onAccent,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
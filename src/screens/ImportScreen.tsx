@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+} from 'react-native';
+import { PuzzleFormat } from '../game/PuzzleFormat';
+import { ImportedPuzzle, PuzzleImportError } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface ImportScreenProps {
+  onImport: (puzzle: ImportedPuzzle) => void;
+  onBack: () => void;
+}
+
+export const ImportScreen: React.FC<ImportScreenProps> = ({
+  onImport,
+  onBack,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [text, setText] = useState('');
+  const [error, setError] = useState<PuzzleImportError | null>(null);
+
+  const handleImport = () => {
+    const result = PuzzleFormat.parse(text);
+    if (result.ok) {
+      setError(null);
+      onImport(result.puzzle);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const formatConflicts = (importError: PuzzleImportError): string => {
+    return importError.conflicts
+      .map(({ row, col }) => `R${row + 1}C${col + 1}`)
+      .join(', ');
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Import Puzzle</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.help}>
+          Paste an 81-character line ('.' or '0' for blanks), a .sdk grid, or a JSON export.
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={value => {
+            setText(value);
+            setError(null);
+          }}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79"
+          placeholderTextColor={colors.textFaint}
+        />
+
+        {error && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorText}>{error.message}</Text>
+            {error.conflicts.length > 0 && (
+              <Text style={styles.errorDetail}>Conflicting cells: {formatConflicts(error)}</Text>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.importButton, text.trim().length === 0 && styles.disabledButton]}
+          onPress={handleImport}
+          disabled={text.trim().length === 0}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.importButtonText}>IMPORT & PLAY</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  help: {
+    color: colors.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 15,
+  },
+  input: {
+    minHeight: 200,
+    backgroundColor: colors.controlsSurface,
+    borderRadius: 12,
+    padding: 15,
+    fontSize: 16,
+    fontFamily: 'monospace',
+    color: colors.padText,
+    textAlignVertical: 'top',
+  },
+  errorBox: {
+    marginTop: 15,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.conflict,
+  },
+  errorText: {
+    color: colors.conflictText,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorDetail: {
+    color: colors.conflictText,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  importButton: {
+    backgroundColor: colors.danger,
+    borderRadius: 12,
+    paddingVertical: 18,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  disabledButton: {
+    backgroundColor: colors.textFaint,
+  },
+  importButtonText: {
+    color: colors.onAccent,
+    fontSize: 18,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+});
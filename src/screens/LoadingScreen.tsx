@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { GenerationProgress } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface LoadingScreenProps {
+  title: string;
+  subtitle?: string;
+  progress?: GenerationProgress | null;
+  onCancel?: () => void;
+}
+
+export const LoadingScreen: React.FC<LoadingScreenProps> = ({
+  title,
+  subtitle,
+  progress,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+      <View style={styles.content}>
+        <ActivityIndicator size="large" color={colors.text} />
+        <Text style={styles.title}>{title}</Text>
+        {subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+        {progress && (
+          <View style={styles.progressContainer}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${Math.round(progress.attemptProgress * 100)}%` }]} />
+            </View>
+            {progress.attempt > 1 && (
+              <Text style={styles.progressText}>
+                Candidate {progress.attempt}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {onCancel && (
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel} activeOpacity={0.8}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  title: {
+    color: colors.text,
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
+  subtitle: {
+    color: colors.textMuted,
+    fontSize: 16,
+    marginTop: 5,
+  },
+  progressContainer: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.surface,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.accent,
+  },
+  progressText: {
+    color: colors.textMuted,
+    fontSize: 14,
+    marginTop: 10,
+  },
+  cancelButton: {
+    backgroundColor: colors.textFaint,
+    paddingVertical: 12,
+    paddingHorizontal: 40,
+    borderRadius: 8,
+    marginTop: 40,
+  },
+  cancelButtonText: {
+    color: colors.onAccent,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
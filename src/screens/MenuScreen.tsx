@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,11 +9,28 @@ import {
   Alert,
   Dimensions,
 } from 'react-native';
-import { Difficulty } from '../types/game';
+import { ConstraintType, Difficulty, GridSize, SymbolSet, Variant } from '../types/game';
+import { GridShape } from '../game/GridShape';
+import { Constraints } from '../game/Constraints';
+import { JigsawRegions } from '../game/JigsawRegions';
+import { SamuraiLayout } from '../game/SamuraiLayout';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
 
 interface MenuScreenProps {
-  onStartGame: (difficulty: Difficulty) => void;
+  onStartGame: (
+    difficulty: Difficulty,
+    size: GridSize,
+    symbols: SymbolSet,
+    variant: Variant,
+    constraints: ConstraintType[]
+  ) => void;
+  onContinueGame?: () => void; // Only set when a saved game exists
+  onShowDaily: () => void;
+  onShowImport: () => void;
   onShowStats: () => void;
+  onShowHistory: () => void;
+  onShowAchievements: () => void;
   onShowSettings: () => void;
 }
 
@@ -21,38 +38,116 @@ const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
 export const MenuScreen: React.FC<MenuScreenProps> = ({
   onStartGame,
+  onContinueGame,
+  onShowDaily,
+  onShowImport,
   onShowStats,
+  onShowHistory,
+  onShowAchievements,
   onShowSettings,
 }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('easy');
+  const [selectedSize, setSelectedSize] = useState<GridSize>(GridShape.DEFAULT_SIZE);
+  const [selectedSymbols, setSelectedSymbols] = useState<SymbolSet>('digits');
+  const [selectedVariant, setSelectedVariant] = useState<Variant>('classic');
+  const [selectedRules, setSelectedRules] = useState<ConstraintType[]>([]);
+
+  const sizes = selectedVariant === 'jigsaw' ? GridShape.SIZES.filter(size => size <= JigsawRegions.MAX_SIZE)
+    : selectedVariant === 'samurai' ? [SamuraiLayout.GRID_SIZE]
+    : GridShape.SIZES;
+  const gridSize = sizes.includes(selectedSize) ? selectedSize : GridShape.DEFAULT_SIZE;
+  const symbolSets = GridShape.getSymbolSets(gridSize);
+  const symbols = symbolSets.includes(selectedSymbols) ? selectedSymbols : symbolSets[0];
+  // Rules chosen for another size or variant are kept while they still fit
+  const rules = selectedRules.reduce<ConstraintType[]>(
+    (kept, type) => Constraints.isSupported([...kept, type], gridSize, selectedVariant) ? [...kept, type] : kept,
+    []
+  );
 
   const handleStartGame = () => {
+    const sizeLabel = gridSize === GridShape.DEFAULT_SIZE ? '' : ` ${formatSize(gridSize)}`;
+    const variantLabel = selectedVariant === 'classic' ? '' : ` ${getVariantLabel(selectedVariant)}`;
+    const rulesLabel = rules.length === 0
+      ? ''
+      : ` with ${rules.map(type => Constraints.getName(type)).join(', ')} rules`;
+    const constraints = [...Constraints.CLASSIC, ...rules];
     Alert.alert(
       'Start New Game',
-      `Start a new ${selectedDifficulty} puzzle?`,
+      `Start a new ${selectedDifficulty}${sizeLabel}${variantLabel} puzzle${rulesLabel}?`,
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Start', onPress: () => onStartGame(selectedDifficulty) },
+        { text: 'Start', onPress: () => onStartGame(selectedDifficulty, gridSize, symbols, selectedVariant, constraints) },
       ]
     );
   };
 
-  const getDifficultyColor = (difficulty: Difficulty): string => {
-    switch (difficulty) {
-      case 'easy': return '#27AE60';
-      case 'medium': return '#F39C12';
-      case 'hard': return '#E74C3C';
+  // A rule can only be added while the mix stays one puzzles can be generated for
+  const canAddRule = (type: ConstraintType): boolean =>
+    Constraints.isSupported([...rules, type], gridSize, selectedVariant);
+
+  const toggleRule = (type: ConstraintType) => {
+    if (rules.includes(type)) {
+      setSelectedRules(rules.filter(rule => rule !== type));
+    } else if (canAddRule(type)) {
+      setSelectedRules(Constraints.EXTRAS.filter(rule => rule === type || rules.includes(rule)));
+    }
+  };
+
+  const getVariantLabel = (variant: Variant): string => {
+    switch (variant) {
+      case 'classic': return 'Classic';
+      case 'killer': return 'Killer';
+      case 'jigsaw': return 'Jigsaw';
+      case 'samurai': return 'Samurai';
+    }
+  };
+
+  const formatSize = (size: GridSize): string => `${size}×${size}`;
+
+  const getSymbolSetLabel = (symbolSet: SymbolSet): string => {
+    switch (symbolSet) {
+      case 'digits': return '1–9';
+      case 'hex': return '0–F';
+      case 'letters': return 'A–P';
     }
   };
 
+  const getDifficultyColor = (difficulty: Difficulty): string =>
+    colors[difficulty];
+
   const getDifficultyDescription = (difficulty: Difficulty): string => {
+    if (selectedVariant === 'killer') {
+      switch (difficulty) {
+        case 'easy': return 'Small cages\nNo givens, just cage sums';
+        case 'medium': return 'Mid-sized cages\nSums with more ways to make them';
+        case 'hard': return 'Large cages\nFew sums pin down their digits';
+      }
+    }
+
     switch (difficulty) {
-      case 'easy': return 'Perfect for beginners\n40+ given numbers';
-      case 'medium': return 'Moderate challenge\n30-40 given numbers';
-      case 'hard': return 'Expert level\n20-30 given numbers';
+      case 'easy': return 'Perfect for beginners\nSolvable with singles only';
+      case 'medium': return 'Moderate challenge\nNeeds pairs and locked candidates';
+      case 'hard': return 'Expert level\nNeeds X-Wings, XY-Wings and coloring';
     }
   };
 
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void, isDisabled = false) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.selectedChip]}
+      onPress={onPress}
+      disabled={isDisabled}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.chipText, isSelected && styles.selectedChipText, isDisabled && styles.disabledChipText]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
   const renderDifficultyButton = (difficulty: Difficulty) => {
     const isSelected = selectedDifficulty === difficulty;
     return (
@@ -83,7 +178,7 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="light-content" backgroundColor="#2C3E50" />
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
       
       {/* Header */}
       <View style={styles.header}>
@@ -94,6 +189,36 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
       {/* Difficulty Selection */}
       <View style={styles.difficultyContainer}>
         <Text style={styles.difficultyTitle}>Choose Difficulty</Text>
+
+        {/* Variant and grid size, plus the symbol choice for grids past nine values */}
+        <View style={styles.chipRow}>
+          {(['classic', 'killer', 'jigsaw', 'samurai'] as Variant[]).map(variant =>
+            renderChip(getVariantLabel(variant), variant === selectedVariant, () => setSelectedVariant(variant))
+          )}
+        </View>
+        <View style={styles.chipRow}>
+          {sizes.map(size =>
+            renderChip(formatSize(size), size === gridSize, () => setSelectedSize(size))
+          )}
+        </View>
+        <View style={styles.chipRow}>
+          {Constraints.EXTRAS.map(type =>
+            renderChip(
+              Constraints.getName(type),
+              rules.includes(type),
+              () => toggleRule(type),
+              !rules.includes(type) && !canAddRule(type)
+            )
+          )}
+        </View>
+        {symbolSets.length > 1 && (
+          <View style={styles.chipRow}>
+            {symbolSets.map(symbolSet =>
+              renderChip(getSymbolSetLabel(symbolSet), symbolSet === symbols, () => setSelectedSymbols(symbolSet))
+            )}
+          </View>
+        )}
+
         <View style={styles.difficultyButtons}>
           {(['easy', 'medium', 'hard'] as Difficulty[]).map(renderDifficultyButton)}
         </View>
@@ -101,6 +226,16 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
 
       {/* Action Buttons */}
       <View style={styles.actionButtonsContainer}>
+        {onContinueGame && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.continueButton]}
+            onPress={onContinueGame}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.startButtonText}>CONTINUE</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[styles.actionButton, styles.startButton]}
           onPress={handleStartGame}
@@ -109,6 +244,22 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
           <Text style={styles.startButtonText}>START GAME</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.actionButton, styles.dailyButton]}
+          onPress={onShowDaily}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.dailyButtonText}>Daily Challenge</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.importButton]}
+          onPress={onShowImport}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.secondaryButtonText}>Import Puzzle</Text>
+        </TouchableOpacity>
+
         <View style={styles.secondaryButtons}>
           <TouchableOpacity
             style={[styles.actionButton, styles.secondaryButton]}
@@ -118,6 +269,22 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
             <Text style={styles.secondaryButtonText}>Statistics</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={onShowHistory}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>History</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={onShowAchievements}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>Achievements</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.actionButton, styles.secondaryButton]}
             onPress={onShowSettings}
@@ -136,10 +303,10 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#2C3E50',
+    backgroundColor: colors.background,
   },
   header: {
     alignItems: 'center',
@@ -149,13 +316,13 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 48,
     fontWeight: 'bold',
-    color: '#ECF0F1',
+    color: colors.text,
     letterSpacing: 4,
     marginBottom: 10,
   },
   subtitle: {
     fontSize: 18,
-    color: '#BDC3C7',
+    color: colors.textMuted,
     fontStyle: 'italic',
   },
   difficultyContainer: {
@@ -166,10 +333,36 @@ const styles = StyleSheet.create({
   difficultyTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#ECF0F1',
+    color: colors.text,
     textAlign: 'center',
     marginBottom: 30,
   },
+  chipRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  chip: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginHorizontal: 4,
+  },
+  selectedChip: {
+    backgroundColor: colors.accent,
+  },
+  chipText: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectedChipText: {
+    color: colors.onAccent,
+  },
+  disabledChipText: {
+    color: colors.disabledText,
+  },
   difficultyButtons: {
     flex: 1,
     justifyContent: 'space-around',
@@ -197,13 +390,13 @@ const styles = StyleSheet.create({
   difficultyButtonTitle: {
     fontSize: 22,
     fontWeight: 'bold',
-    color: '#FFFFFF',
+    color: colors.onAccent,
     textAlign: 'center',
     marginBottom: 5,
   },
   difficultyButtonDescription: {
     fontSize: 14,
-    color: '#FFFFFF',
+    color: colors.onAccent,
     textAlign: 'center',
     opacity: 0.9,
     lineHeight: 18,
@@ -220,7 +413,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   selectedIndicatorText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
     fontSize: 18,
     fontWeight: 'bold',
   },
@@ -243,26 +436,45 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
   },
   startButton: {
-    backgroundColor: '#E74C3C',
+    backgroundColor: colors.danger,
     marginBottom: 20,
     paddingVertical: 20,
   },
   startButtonText: {
-    color: '#FFFFFF',
+    color: colors.onAccent,
     fontSize: 20,
     fontWeight: 'bold',
     letterSpacing: 1,
   },
+  continueButton: {
+    backgroundColor: colors.success,
+    marginBottom: 20,
+  },
+  dailyButton: {
+    backgroundColor: colors.special,
+    marginBottom: 15,
+  },
+  importButton: {
+    backgroundColor: colors.surface,
+    marginBottom: 20,
+  },
+  dailyButtonText: {
+    color: colors.onAccent,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
   secondaryButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-between',
   },
   secondaryButton: {
-    backgroundColor: '#34495E',
-    flex: 0.48,
+    backgroundColor: colors.surface,
+    width: '48%',
+    marginBottom: 10,
   },
   secondaryButtonText: {
-    color: '#ECF0F1',
+    color: colors.text,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -271,7 +483,7 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
   },
   footerText: {
-    color: '#7F8C8D',
+    color: colors.textFaint,
     fontSize: 12,
   },
 });
\ No newline at end of file
@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+} from 'react-native';
+import { SudokuBoard } from '../components/SudokuBoard';
+import { ZoomableView } from '../components/ZoomableView';
+import { ReplayScrubber } from '../components/ReplayScrubber';
+import { Constraints } from '../game/Constraints';
+import { GameReplay } from '../game/GameReplay';
+import { GridShape } from '../game/GridShape';
+import { SudokuEngine } from '../game/SudokuEngine';
+import { GameHistoryEntry, Move, Position, ReplayStep, SymbolSet } from '../types/game';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface ReplayScreenProps {
+  game: GameHistoryEntry;
+  onBack: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+// Playback follows the real time between moves, but long pauses are cut
+// short and rapid moves are spread out so each one can be seen
+const MAX_STEP_MS = 3000;
+const MIN_STEP_MS = 150;
+
+const formatCell = ({ row, col }: Position): string => `R${row + 1}C${col + 1}`;
+
+const describeMove = (move: Move, symbols: SymbolSet): string => {
+  const cell = formatCell(move.position);
+  switch (move.kind ?? 'value') {
+    case 'value':
+      return move.newValue === null
+        ? `Erased ${cell}`
+        : `${GridShape.getSymbol(move.newValue, symbols)} in ${cell}`;
+    case 'note':
+      return `Notes in ${cell}`;
+    case 'candidates':
+      return 'Filled in candidates';
+    case 'hint':
+      return move.newValue === null
+        ? 'Hint removed candidates'
+        : `Hint: ${GridShape.getSymbol(move.newValue, symbols)} in ${cell}`;
+  }
+};
+
+const describeStep = (step: ReplayStep, symbols: SymbolSet): string => {
+  const description = describeMove(step.move, symbols);
+  switch (step.event.action) {
+    case 'move': return description;
+    case 'undo': return `Undo: ${description}`;
+    case 'redo': return `Redo: ${description}`;
+  }
+};
+
+export const ReplayScreen: React.FC<ReplayScreenProps> = ({ game, onBack }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const steps = useMemo(() => GameReplay.buildSteps(game), [game]);
+  const constraints = useMemo(
+    () => Constraints.build(game.constraints ?? Constraints.CLASSIC, game.originalGrid.length, game.regions, game.layout),
+    [game]
+  );
+  const symbols = game.symbols ?? 'digits';
+
+  // How many steps have been played; 0 shows the givens
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const getStepTime = (index: number): number =>
+    index === 0 ? game.createdAt : steps[index - 1].timestamp;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (position >= steps.length) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const gap = Math.min(getStepTime(position + 1) - getStepTime(position), MAX_STEP_MS);
+    const timer = setTimeout(() => setPosition(position + 1), Math.max(MIN_STEP_MS, gap / speed));
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, speed, steps]);
+
+  const handlePlayPause = () => {
+    // Playing from the end starts over
+    if (!isPlaying && position >= steps.length) {
+      setPosition(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleStep = (delta: number) => {
+    setIsPlaying(false);
+    setPosition(Math.min(steps.length, Math.max(0, position + delta)));
+  };
+
+  const formatDuration = (milliseconds: number): string => {
+    const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const currentStep = position > 0 ? steps[position - 1] : null;
+  const grid = currentStep?.grid ?? game.originalGrid;
+  const wrongCells = useMemo(() => SudokuEngine.findWrongCells(grid, game.solution), [grid, game.solution]);
+
+  const marks = useMemo(() => steps.flatMap((step, index) => {
+    if (step.isWrong) return [{ position: index + 1, color: colors.danger }];
+    if (step.isUndone) return [{ position: index + 1, color: colors.warning }];
+    return [];
+  }), [steps, colors]);
+
+  const renderBoard = () => (
+    <SudokuBoard
+      grid={grid}
+      originalGrid={game.originalGrid}
+      conflicts={[]}
+      onCellPress={() => {}}
+      selectedCell={currentStep?.move.position ?? null}
+      isGameCompleted={game.outcome === 'completed' && position === steps.length}
+      errorCheckMode="solution"
+      wrongCells={wrongCells}
+      symbols={symbols}
+      cages={game.cages}
+      regions={game.regions}
+      constraints={constraints}
+      layout={game.layout}
+    />
+  );
+
+  const renderStepInfo = () => {
+    if (!currentStep) {
+      return (
+        <View style={styles.card}>
+          <Text style={styles.stepTitle}>Start</Text>
+          <Text style={styles.stepDetail}>
+            {steps.length} {steps.length === 1 ? 'step' : 'steps'} recorded
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.stepHeader}>
+          <Text style={styles.stepTitle}>{describeStep(currentStep, symbols)}</Text>
+          <Text style={styles.stepGap}>+{formatDuration(getStepTime(position) - getStepTime(position - 1))}</Text>
+        </View>
+        <Text style={styles.stepDetail}>
+          Step {position} of {steps.length} · {formatDuration(currentStep.timestamp - game.createdAt)} into the game
+        </Text>
+        {currentStep.isWrong && <Text style={[styles.flag, { color: colors.danger }]}>Doesn't match the solution</Text>}
+        {currentStep.isUndone && <Text style={[styles.flag, { color: colors.warning }]}>Taken back later</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Replay</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {game.layout ? <ZoomableView>{renderBoard()}</ZoomableView> : renderBoard()}
+
+        <View style={styles.controls}>
+          <ReplayScrubber
+            position={position}
+            length={steps.length}
+            onSeek={setPosition}
+            marks={marks}
+          />
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.controlButton, position === 0 && styles.disabledButton]}
+              onPress={() => handleStep(-1)}
+              disabled={position === 0}
+            >
+              <Text style={styles.controlButtonText}>◀ Back</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.playButton, steps.length === 0 && styles.disabledButton]}
+              onPress={handlePlayPause}
+              disabled={steps.length === 0}
+            >
+              <Text style={styles.controlButtonText}>{isPlaying ? 'Pause' : 'Play'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, position === steps.length && styles.disabledButton]}
+              onPress={() => handleStep(1)}
+              disabled={position === steps.length}
+            >
+              <Text style={styles.controlButtonText}>Next ▶</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.speeds}>
+            {SPEEDS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.speedChip, speed === option && styles.selectedSpeedChip]}
+                onPress={() => setSpeed(option)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.speedChipText, speed === option && styles.selectedSpeedChipText]}>
+                  {option}×
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {renderStepInfo()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingVertical: 20,
+  },
+  controls: {
+    paddingHorizontal: 20,
+    marginTop: 15,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  controlButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    alignItems: 'center',
+  },
+  playButton: {
+    backgroundColor: colors.accent,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  controlButtonText: {
+    color: colors.onAccent,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  speeds: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  speedChip: {
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginHorizontal: 4,
+    backgroundColor: colors.surface,
+  },
+  selectedSpeedChip: {
+    backgroundColor: colors.accent,
+  },
+  speedChipText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  selectedSpeedChipText: {
+    color: colors.onAccent,
+  },
+  card: {
+    marginHorizontal: 20,
+    marginTop: 15,
+    padding: 15,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stepTitle: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepGap: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  stepDetail: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  flag: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,345 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  Switch,
+  Alert,
+  Share,
+} from 'react-native';
+import { Storage } from '../utils/Storage';
+import { ErrorCheckMode, UserPreferences } from '../types/game';
+import { Themes } from '../theme/Themes';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface SettingsScreenProps {
+  preferences: UserPreferences;
+  onChangePreferences: (preferences: Partial<UserPreferences>) => void;
+  // Called after stored data is replaced or cleared so the app can reload it
+  onDataChanged: () => void;
+  onBack: () => void;
+}
+
+type ToggleSetting = {
+  key: 'showTimer' | 'autoCandidates';
+  label: string;
+  description: string;
+};
+
+const TOGGLES: ToggleSetting[] = [
+  { key: 'showTimer', label: 'Show Timer', description: 'Display the clock while playing' },
+  { key: 'autoCandidates', label: 'Auto Candidates', description: 'Fill in and update notes automatically' },
+];
+
+const ERROR_CHECK_MODES: { mode: ErrorCheckMode; label: string; description: string }[] = [
+  { mode: 'off', label: 'Off', description: 'Wrong entries are only marked once the board is full' },
+  { mode: 'conflicts', label: 'Conflicts', description: 'Mark entries that break a rule' },
+  { mode: 'solution', label: 'Solution', description: 'Mark wrong entries straight away; games count as assisted' },
+];
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  preferences,
+  onChangePreferences,
+  onDataChanged,
+  onBack,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [backupText, setBackupText] = useState('');
+
+  const handleExport = async () => {
+    const data = await Storage.exportData();
+    if (!data) {
+      Alert.alert('Export Failed', 'Your data could not be exported. Please try again.');
+      return;
+    }
+    try {
+      await Share.share({ message: data });
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+    }
+  };
+
+  const handleImport = () => {
+    Alert.alert(
+      'Import Backup',
+      'This replaces your statistics, best scores, daily results, achievements and settings with the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          style: 'destructive',
+          onPress: async () => {
+            const imported = await Storage.importData(backupText);
+            if (imported) {
+              setBackupText('');
+              onDataChanged();
+              Alert.alert('Backup Imported', 'Your data has been restored.');
+            } else {
+              Alert.alert('Import Failed', 'That text is not a valid backup.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClearData = () => {
+    Alert.alert(
+      'Clear All Data',
+      'This deletes your statistics, best scores, daily results, game history, achievements, saved game and settings. It cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await Storage.clearAllData();
+            onDataChanged();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.option, isSelected && styles.selectedOption]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.optionText, isSelected && styles.selectedOptionText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Settings</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Gameplay */}
+        <Text style={styles.sectionTitle}>Gameplay</Text>
+        <View style={styles.card}>
+          {TOGGLES.map(({ key, label, description }) => (
+            <View key={key} style={styles.settingRow}>
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>{label}</Text>
+                <Text style={styles.settingDescription}>{description}</Text>
+              </View>
+              <Switch
+                value={preferences[key]}
+                onValueChange={value => onChangePreferences({ [key]: value })}
+                trackColor={{ false: colors.disabledText, true: colors.success }}
+              />
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Error Checking</Text>
+        <View style={styles.optionRow}>
+          {ERROR_CHECK_MODES.map(({ mode, label }) =>
+            renderOption(label, preferences.errorCheckMode === mode, () => onChangePreferences({ errorCheckMode: mode }))
+          )}
+        </View>
+        <Text style={styles.optionDescription}>
+          {ERROR_CHECK_MODES.find(({ mode }) => mode === preferences.errorCheckMode)?.description}
+        </Text>
+
+        {/* Appearance */}
+        <Text style={styles.sectionTitle}>Theme</Text>
+        <View style={styles.optionRow}>
+          {Themes.MODES.map(mode =>
+            renderOption(Themes.getModeName(mode), preferences.theme === mode, () => onChangePreferences({ theme: mode }))
+          )}
+        </View>
+        <Text style={styles.sectionTitle}>Colors</Text>
+        <View style={styles.optionRow}>
+          {Themes.PALETTES.map(palette =>
+            renderOption(Themes.getPaletteName(palette), preferences.palette === palette, () => onChangePreferences({ palette }))
+          )}
+        </View>
+
+        {/* Data */}
+        <Text style={styles.sectionTitle}>Data</Text>
+        <View style={styles.card}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleExport} activeOpacity={0.8}>
+            <Text style={styles.actionButtonText}>Export Backup</Text>
+          </TouchableOpacity>
+
+          <TextInput
+            style={styles.input}
+            value={backupText}
+            onChangeText={setBackupText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder="Paste a backup here to restore it"
+            placeholderTextColor={colors.textFaint}
+          />
+          <TouchableOpacity
+            style={[styles.actionButton, backupText.trim().length === 0 && styles.disabledButton]}
+            onPress={handleImport}
+            disabled={backupText.trim().length === 0}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.actionButtonText}>Import Backup</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={styles.clearButton} onPress={handleClearData} activeOpacity={0.8}>
+          <Text style={styles.clearButtonText}>Clear All Data</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    marginBottom: 10,
+  },
+  card: {
+    padding: 15,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+    marginBottom: 20,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  settingLabel: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  settingDescription: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    marginBottom: 20,
+  },
+  optionDescription: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: -12,
+    marginBottom: 20,
+    marginHorizontal: 4,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 12,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.surface,
+    backgroundColor: colors.surface,
+    alignItems: 'center',
+  },
+  selectedOption: {
+    borderColor: colors.accent,
+  },
+  optionText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  selectedOptionText: {
+    color: colors.onAccent,
+  },
+  input: {
+    minHeight: 100,
+    backgroundColor: colors.controlsSurface,
+    borderRadius: 12,
+    padding: 15,
+    marginVertical: 12,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    color: colors.padText,
+    textAlignVertical: 'top',
+  },
+  actionButton: {
+    backgroundColor: colors.accent,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: colors.onAccent,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    backgroundColor: colors.textFaint,
+  },
+  clearButton: {
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.danger,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: colors.danger,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,482 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Storage } from '../utils/Storage';
+import { Difficulty, DifficultyStats, GameData, GameMode, GameStatsByMode } from '../types/game';
+import { GameModes } from '../game/GameModes';
+import { useTheme } from '../theme/ThemeProvider';
+import { ThemeColors } from '../types/theme';
+
+interface StatsScreenProps {
+  onBack: () => void;
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+// Bars in the trend chart; older times are still used for the median
+const TREND_GAMES = 20;
+const CHART_HEIGHT = 120;
+const TOP_SCORES = 10;
+
+export const StatsScreen: React.FC<StatsScreenProps> = ({ onBack }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [stats, setStats] = useState<GameStatsByMode | null>(null);
+  const [highScores, setHighScores] = useState<GameData[]>([]);
+  const [selectedMode, setSelectedMode] = useState<GameMode>(GameModes.CLASSIC);
+  const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('easy');
+  const [unassistedOnly, setUnassistedOnly] = useState(false);
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const loadStats = async () => {
+    const [gameStats, scores] = await Promise.all([
+      Storage.getGameStats(),
+      Storage.getHighScores(),
+    ]);
+    setStats(gameStats);
+    setHighScores(scores);
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Statistics',
+      'This clears your game counts, times and best scores for every mode and difficulty. Daily challenge results are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            await Promise.all([Storage.resetGameStats(), Storage.clearHighScores()]);
+            await loadStats();
+          },
+        },
+      ]
+    );
+  };
+
+  const formatTime = (timeInSeconds: number): string => {
+    const minutes = Math.floor(timeInSeconds / 60);
+    const seconds = timeInSeconds % 60;
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const formatOptionalTime = (timeInSeconds: number | null): string =>
+    timeInSeconds === null ? '--:--' : formatTime(Math.round(timeInSeconds));
+
+  const formatDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+  };
+
+  const getDifficultyColor = (difficulty: Difficulty): string =>
+    colors[difficulty];
+
+  const isAssisted = (game: GameData): boolean => game.errorCheckMode === 'solution';
+
+  const getMedian = (times: number[]): number | null => {
+    if (times.length === 0) return null;
+    const sorted = [...times].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  };
+
+  const renderStatBox = (label: string, value: string) => (
+    <View key={label} style={styles.statBox}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderSummary = (difficultyStats: DifficultyStats) => {
+    const {
+      gamesPlayed, gamesCompleted, assistedCompleted, bestTime, unassistedBestTime, totalTime, recentTimes,
+    } = difficultyStats;
+    const completionRate = gamesPlayed > 0 ? Math.round((gamesCompleted / gamesPlayed) * 100) : 0;
+    const averageTime = gamesCompleted > 0 ? totalTime / gamesCompleted : null;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.statRow}>
+          {renderStatBox('Played', gamesPlayed.toString())}
+          {renderStatBox('Completed', gamesCompleted.toString())}
+          {renderStatBox('Completion', `${completionRate}%`)}
+        </View>
+        <View style={styles.statRow}>
+          {renderStatBox('Best', formatOptionalTime(bestTime))}
+          {renderStatBox('Average', formatOptionalTime(averageTime))}
+          {renderStatBox('Median', formatOptionalTime(getMedian(recentTimes)))}
+        </View>
+        <View style={styles.statRow}>
+          {renderStatBox('Assisted', assistedCompleted.toString())}
+          {renderStatBox('Best Unassisted', formatOptionalTime(unassistedBestTime))}
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Bar chart of the latest completion times, oldest on the left; shorter
+   * bars are faster solves
+   */
+  const renderTrend = (difficultyStats: DifficultyStats) => {
+    const times = difficultyStats.recentTimes.slice(-TREND_GAMES);
+    const longest = Math.max(...times, 1);
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Recent Games</Text>
+        {times.length === 0 ? (
+          <Text style={styles.emptyText}>Complete a game to see your trend.</Text>
+        ) : (
+          <>
+            <View style={styles.chart}>
+              {times.map((time, index) => (
+                <View key={index} style={styles.barSlot}>
+                  <View
+                    style={[
+                      styles.bar,
+                      {
+                        height: Math.max(2, (time / longest) * CHART_HEIGHT),
+                        backgroundColor: getDifficultyColor(selectedDifficulty),
+                      },
+                      time === difficultyStats.bestTime && styles.bestBar,
+                    ]}
+                  />
+                </View>
+              ))}
+            </View>
+            <Text style={styles.chartCaption}>
+              Last {times.length} {times.length === 1 ? 'game' : 'games'} · longest {formatTime(longest)}
+            </Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  // Only modes that have been played are offered; classic always is
+  const renderModes = (allStats: GameStatsByMode) => {
+    const modes = GameModes.ALL.filter(mode => GameModes.isSame(mode, GameModes.CLASSIC)
+      || DIFFICULTIES.some(difficulty => Storage.getModeStats(allStats, mode)[difficulty].gamesPlayed > 0)
+    );
+    if (modes.length < 2) return null;
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.modeList}
+        contentContainerStyle={styles.modes}
+      >
+        {modes.map(mode => {
+          const isSelected = GameModes.isSame(mode, selectedMode);
+          return (
+            <TouchableOpacity
+              key={GameModes.getKey(mode)}
+              style={[styles.filterChip, styles.modeChip, isSelected && styles.selectedFilterChip]}
+              onPress={() => setSelectedMode(mode)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.filterChipText, isSelected && styles.selectedFilterChipText]}>
+                {GameModes.getLabel(mode)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+
+  const renderHighScores = () => {
+    const scores = highScores
+      .filter(game => game.difficulty === selectedDifficulty && GameModes.isSame(GameModes.of(game), selectedMode))
+      .filter(game => !unassistedOnly || !isAssisted(game))
+      .sort((a, b) => a.timeElapsed - b.timeElapsed)
+      .slice(0, TOP_SCORES);
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Top {TOP_SCORES}</Text>
+          <TouchableOpacity
+            style={[styles.filterChip, unassistedOnly && styles.selectedFilterChip]}
+            onPress={() => setUnassistedOnly(!unassistedOnly)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.filterChipText, unassistedOnly && styles.selectedFilterChipText]}>
+              Unassisted only
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {scores.length === 0 ? (
+          <Text style={styles.emptyText}>No completed games yet.</Text>
+        ) : (
+          <>
+            <View style={styles.tableRow}>
+              <Text style={[styles.tableHeader, styles.rankColumn]}>#</Text>
+              <Text style={[styles.tableHeader, styles.tableColumn]}>Time</Text>
+              <Text style={[styles.tableHeader, styles.tableColumn]}>Mistakes</Text>
+              <Text style={[styles.tableHeader, styles.tableColumn]}>Hints</Text>
+              <Text style={[styles.tableHeader, styles.dateColumn]}>Date</Text>
+            </View>
+            {scores.map((game, index) => (
+              <View key={game.id} style={styles.tableRow}>
+                <Text style={[styles.tableCell, styles.rankColumn]}>{index + 1}</Text>
+                <Text style={[styles.tableCell, styles.tableColumn]}>
+                  {formatTime(game.timeElapsed)}{isAssisted(game) ? ' *' : ''}
+                </Text>
+                <Text style={[styles.tableCell, styles.tableColumn]}>{game.mistakes}</Text>
+                <Text style={[styles.tableCell, styles.tableColumn]}>{game.hintsUsed}</Text>
+                <Text style={[styles.tableCell, styles.dateColumn]}>{formatDate(game.createdAt)}</Text>
+              </View>
+            ))}
+            {scores.some(isAssisted) && (
+              <Text style={styles.chartCaption}>* Checked against the solution</Text>
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Statistics</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {/* Difficulty tabs */}
+      <View style={styles.tabs}>
+        {DIFFICULTIES.map(difficulty => {
+          const isSelected = difficulty === selectedDifficulty;
+          return (
+            <TouchableOpacity
+              key={difficulty}
+              style={[styles.tab, isSelected && { backgroundColor: getDifficultyColor(difficulty) }]}
+              onPress={() => setSelectedDifficulty(difficulty)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.tabText, isSelected && styles.selectedTabText]}>
+                {difficulty.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {stats && renderModes(stats)}
+
+      {stats && (
+        <ScrollView contentContainerStyle={styles.content}>
+          {renderSummary(Storage.getModeStats(stats, selectedMode)[selectedDifficulty])}
+          {renderTrend(Storage.getModeStats(stats, selectedMode)[selectedDifficulty])}
+          {renderHighScores()}
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset} activeOpacity={0.8}>
+            <Text style={styles.resetButtonText}>Reset Statistics</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+  },
+  backButton: {
+    padding: 10,
+    minWidth: 70,
+  },
+  backButtonText: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    overflow: 'hidden',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  tabText: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  selectedTabText: {
+    color: colors.onAccent,
+  },
+  modeList: {
+    flexGrow: 0,
+  },
+  modes: {
+    paddingHorizontal: 20,
+    paddingTop: 15,
+  },
+  modeChip: {
+    backgroundColor: colors.surface,
+    marginRight: 8,
+  },
+  content: {
+    padding: 20,
+  },
+  card: {
+    padding: 15,
+    borderRadius: 15,
+    backgroundColor: colors.surface,
+    marginBottom: 15,
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 8,
+  },
+  statBox: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    color: colors.text,
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  sectionTitle: {
+    color: colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  filterChip: {
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    backgroundColor: colors.background,
+  },
+  selectedFilterChip: {
+    backgroundColor: colors.accent,
+  },
+  filterChipText: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  selectedFilterChipText: {
+    color: colors.onAccent,
+  },
+  emptyText: {
+    color: colors.textFaint,
+    fontSize: 14,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bar: {
+    width: '70%',
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  bestBar: {
+    borderWidth: 2,
+    borderColor: colors.text,
+  },
+  chartCaption: {
+    color: colors.textFaint,
+    fontSize: 12,
+    marginTop: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.background,
+  },
+  tableHeader: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tableCell: {
+    color: colors.text,
+    fontSize: 14,
+  },
+  rankColumn: {
+    width: 30,
+  },
+  tableColumn: {
+    flex: 1,
+  },
+  dateColumn: {
+    flex: 1.4,
+    textAlign: 'right',
+  },
+  resetButton: {
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.danger,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: colors.danger,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,29 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { ThemeMode, ThemePalette } from '../types/game';
+import { Theme } from '../types/theme';
+import { Themes } from './Themes';
+
+interface ThemeProviderProps {
+  mode: ThemeMode;
+  palette: ThemePalette;
+  children: React.ReactNode;
+}
+
+const ThemeContext = createContext<Theme>(Themes.resolve('light', 'standard'));
+
+/**
+ * Supplies the current theme to every screen and component below it, and
+ * switches it as soon as the preferences or the device's scheme change
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ mode, palette, children }) => {
+  const systemScheme = useColorScheme();
+  const theme = useMemo(
+    () => Themes.resolve(mode, palette, systemScheme),
+    [mode, palette, systemScheme]
+  );
+
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): Theme => useContext(ThemeContext);
@@ -0,0 +1,250 @@
+import { ThemeMode, ThemePalette } from '../types/game';
+import { Theme, ThemeColors } from '../types/theme';
+
+type Scheme = Theme['scheme'];
+
+const LIGHT: ThemeColors = {
+  background: '#2C3E50',
+  surface: '#34495E',
+  text: '#ECF0F1',
+  textMuted: '#BDC3C7',
+  textFaint: '#7F8C8D',
+
+  accent: '#3498DB',
+  success: '#27AE60',
+  warning: '#F39C12',
+  danger: '#E74C3C',
+  special: '#8E44AD',
+  onAccent: '#FFFFFF',
+  disabled: '#BDC3C7',
+  disabledText: '#7F8C8D',
+  easy: '#27AE60',
+  medium: '#F39C12',
+  hard: '#E74C3C',
+
+  controlsBackground: '#FFFFFF',
+  controlsSurface: '#ECF0F1',
+  padButton: '#ECF0F1',
+  padBorder: '#BDC3C7',
+  padText: '#2C3E50',
+  padDisabled: '#F8F9FA',
+  padDisabledBorder: '#DEE2E6',
+  padDisabledText: '#ADB5BD',
+
+  boardBorder: '#34495E',
+  boxLine: '#2C3E50',
+  cellLine: '#BDC3C7',
+  cell: '#ECF0F1',
+  givenCell: '#D5DBDB',
+  given: '#1B4F72',
+  userEntry: '#2C3E50',
+  selection: '#3498DB',
+  peerHighlight: '#AED6F1',
+  conflict: '#F1948A',
+  conflictText: '#A93226',
+  wrongEntry: '#C0392B',
+  note: '#5D6D7E',
+  eliminatedNote: '#E74C3C',
+  hintHouse: '#FCF3CF',
+  hintFocus: '#F9E79F',
+  hintPlacement: '#27AE60',
+  completed: '#A9DFBF',
+  completedText: '#1E8449',
+  cage: '#5D6D7E',
+  cageSum: '#2C3E50',
+  brokenCage: '#E74C3C',
+  ruleShade: 'rgba(142, 68, 173, 0.15)',
+  ruleLine: 'rgba(142, 68, 173, 0.35)',
+};
+
+const DARK: ThemeColors = {
+  background: '#111820',
+  surface: '#1C2630',
+  text: '#E6EBEF',
+  textMuted: '#9AA5B1',
+  textFaint: '#6B7785',
+
+  accent: '#2E86C1',
+  success: '#229954',
+  warning: '#D68910',
+  danger: '#CB4335',
+  special: '#7D3C98',
+  onAccent: '#FFFFFF',
+  disabled: '#34414E',
+  disabledText: '#6B7785',
+  easy: '#229954',
+  medium: '#D68910',
+  hard: '#CB4335',
+
+  controlsBackground: '#1C2630',
+  controlsSurface: '#26323E',
+  padButton: '#26323E',
+  padBorder: '#34414E',
+  padText: '#E6EBEF',
+  padDisabled: '#1C2630',
+  padDisabledBorder: '#26323E',
+  padDisabledText: '#4A5663',
+
+  boardBorder: '#0B1016',
+  boxLine: '#8A97A5',
+  cellLine: '#34414E',
+  cell: '#1E2933',
+  givenCell: '#27343F',
+  given: '#E6EBEF',
+  userEntry: '#7FB8F0',
+  selection: '#2E6DA4',
+  peerHighlight: '#22384D',
+  conflict: '#6E2A2A',
+  conflictText: '#FF8A80',
+  wrongEntry: '#FF6B6B',
+  note: '#9AA5B1',
+  eliminatedNote: '#FF6B6B',
+  hintHouse: '#3D3A22',
+  hintFocus: '#57512A',
+  hintPlacement: '#5FD38D',
+  completed: '#1F4D33',
+  completedText: '#8FE3B0',
+  cage: '#9AA5B1',
+  cageSum: '#E6EBEF',
+  brokenCage: '#FF6B6B',
+  ruleShade: 'rgba(187, 143, 206, 0.18)',
+  ruleLine: 'rgba(187, 143, 206, 0.45)',
+};
+
+// Changes each palette makes to the standard colors of each scheme. The
+// deuteranopia set swaps red and green for orange and blue from the
+// Okabe-Ito palette, so errors and successes differ in more than hue.
+const PALETTES: Record<ThemePalette, Record<Scheme, Partial<ThemeColors>>> = {
+  standard: {
+    light: {},
+    dark: {},
+  },
+  deuteranopia: {
+    light: {
+      success: '#0072B2',
+      warning: '#E69F00',
+      danger: '#D55E00',
+      easy: '#0072B2',
+      medium: '#E69F00',
+      hard: '#D55E00',
+      conflict: '#FFC58A',
+      conflictText: '#8A3B00',
+      wrongEntry: '#D55E00',
+      eliminatedNote: '#D55E00',
+      hintPlacement: '#0072B2',
+      completed: '#BFE3F5',
+      completedText: '#005A8C',
+      brokenCage: '#D55E00',
+    },
+    dark: {
+      success: '#0072B2',
+      warning: '#C98A00',
+      danger: '#D55E00',
+      easy: '#0072B2',
+      medium: '#C98A00',
+      hard: '#D55E00',
+      conflict: '#6B4210',
+      conflictText: '#FFB870',
+      wrongEntry: '#F0A050',
+      eliminatedNote: '#F0A050',
+      hintPlacement: '#56B4E9',
+      completed: '#1C3D57',
+      completedText: '#8CCBF0',
+      brokenCage: '#F0A050',
+    },
+  },
+  highContrast: {
+    light: {
+      background: '#000000',
+      surface: '#1A1A1A',
+      text: '#FFFFFF',
+      textMuted: '#E0E0E0',
+      textFaint: '#BDBDBD',
+      controlsSurface: '#E0E0E0',
+      padButton: '#FFFFFF',
+      padBorder: '#000000',
+      padText: '#000000',
+      padDisabledText: '#757575',
+      boardBorder: '#000000',
+      boxLine: '#000000',
+      cellLine: '#555555',
+      cell: '#FFFFFF',
+      givenCell: '#E0E0E0',
+      given: '#000000',
+      userEntry: '#0033CC',
+      selection: '#FFD600',
+      peerHighlight: '#FFF3B0',
+      conflict: '#FF8A80',
+      conflictText: '#8B0000',
+      wrongEntry: '#B00000',
+      note: '#000000',
+      cage: '#000000',
+      cageSum: '#000000',
+    },
+    dark: {
+      background: '#000000',
+      surface: '#121212',
+      text: '#FFFFFF',
+      textMuted: '#E0E0E0',
+      textFaint: '#BDBDBD',
+      controlsBackground: '#000000',
+      controlsSurface: '#121212',
+      padButton: '#000000',
+      padBorder: '#FFFFFF',
+      padText: '#FFFFFF',
+      padDisabledText: '#757575',
+      boardBorder: '#FFFFFF',
+      boxLine: '#FFFFFF',
+      cellLine: '#777777',
+      cell: '#000000',
+      givenCell: '#1F1F1F',
+      given: '#FFFFFF',
+      userEntry: '#FFD600',
+      selection: '#0050C8',
+      peerHighlight: '#10284A',
+      conflict: '#7A0000',
+      conflictText: '#FF9E9E',
+      wrongEntry: '#FF9E9E',
+      note: '#FFFFFF',
+      cage: '#FFFFFF',
+      cageSum: '#FFFFFF',
+    },
+  },
+};
+
+/**
+ * Builds the color themes from the player's mode and palette preferences
+ */
+export class Themes {
+  static readonly MODES: ThemeMode[] = ['light', 'dark', 'system'];
+  static readonly PALETTES: ThemePalette[] = ['standard', 'deuteranopia', 'highContrast'];
+
+  /**
+   * Gets the theme for a mode and palette; 'system' follows the device's
+   * color scheme and falls back to light when the device doesn't report one
+   */
+  static resolve(mode: ThemeMode, palette: ThemePalette, systemScheme?: Scheme | null): Theme {
+    const scheme: Scheme = mode === 'system' ? systemScheme ?? 'light' : mode;
+    const base = scheme === 'dark' ? DARK : LIGHT;
+    return {
+      scheme,
+      colors: { ...base, ...PALETTES[palette][scheme] },
+    };
+  }
+
+  static getModeName(mode: ThemeMode): string {
+    switch (mode) {
+      case 'light': return 'Light';
+      case 'dark': return 'Dark';
+      case 'system': return 'System';
+    }
+  }
+
+  static getPaletteName(palette: ThemePalette): string {
+    switch (palette) {
+      case 'standard': return 'Standard';
+      case 'deuteranopia': return 'Deuteranopia';
+      case 'highContrast': return 'High Contrast';
+    }
+  }
+}
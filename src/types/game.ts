@@ -1,7 +1,23 @@
-export type CellValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | null;
+// Values run from 1 to the grid size; how they are drawn depends on the SymbolSet
+export type CellValue = number | null;
 
 export type SudokuGrid = CellValue[][];
 
+export type GridSize = 4 | 6 | 9 | 12 | 16;
+
+// Box dimensions in cells; 6x6 and 12x12 grids have rectangular boxes
+export type BoxShape = {
+  rows: number;
+  cols: number;
+};
+
+// 'digits' uses 1-9 then A, B, C...; 'hex' uses 0-F; 'letters' uses A, B, C...
+export type SymbolSet = 'digits' | 'hex' | 'letters';
+
+// Pencil marks: the candidate digits noted in each cell, either by the
+// player or filled and maintained automatically when auto candidates is on
+export type NoteGrid = Digit[][][];
+
 export type Position = {
   row: number;
   col: number;
@@ -9,6 +25,66 @@ export type Position = {
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
+export type Variant = 'classic' | 'killer' | 'jigsaw' | 'samurai';
+
+// A kind of puzzle that results are compared within
+export type GameMode = {
+  size: GridSize; // For Samurai, the size of each grid
+  variant: Variant;
+};
+
+// The region (0 to size - 1) of every cell. Jigsaw puzzles use irregular
+// regions in place of boxes; without a map, the regions are the boxes.
+export type RegionMap = number[][];
+
+// Several grids overlapping on one board, such as Samurai's five 9x9 grids
+// sharing corner boxes on a 21x21 board. Grids are played on the board's
+// own coordinates, so a shared cell is one cell; cells outside every grid
+// are holes.
+export type GridLayout = {
+  size: number; // Rows and columns of the whole board
+  gridSize: GridSize;
+  origins: Position[]; // Top-left cell of each grid
+};
+
+// Rules a puzzle can combine. Row, column and box make up classic Sudoku;
+// the rest are variant rules added on top of them
+export type ConstraintType =
+  | 'row'
+  | 'column'
+  | 'box'
+  | 'diagonal' // Both main diagonals hold each value once (X-Sudoku)
+  | 'antiKnight' // Cells a chess knight's move apart never match
+  | 'antiKing' // Diagonally touching cells never match
+  | 'windoku' // Extra box-sized windows hold each value once
+  | 'nonConsecutive'; // Orthogonal neighbours are never one apart
+
+// Two cells that share no house but still restrict each other's values
+export type CellLink = {
+  cells: [Position, Position];
+  rule: 'different' | 'nonConsecutive';
+};
+
+// What the board draws for a rule: a line through cell centres, or shaded cells
+export type ConstraintMarking =
+  | { kind: 'line'; from: Position; to: Position }
+  | { kind: 'shade'; cells: Position[] };
+
+// A rule in the forms the engine works with: houses whose values must all
+// differ, links between pairs of cells, and the board's markings for it
+export type Constraint = {
+  type: ConstraintType;
+  houses: { house: House; cells: Position[] }[];
+  links: CellLink[];
+  markings: ConstraintMarking[];
+};
+
+// A Killer Sudoku cage: its digits add up to sum and none repeat
+export type Cage = {
+  cells: Position[];
+  sum: number;
+};
+
 export type GameState = 'playing' | 'paused' | 'completed' | 'menu';
 
 export type GameData = {
@@ -16,11 +92,53 @@ export type GameData = {
   grid: SudokuGrid;
   solution: SudokuGrid;
   originalGrid: SudokuGrid;
+  notes: NoteGrid;
   difficulty: Difficulty;
+  grade?: PuzzleGrade;
+  seed?: number;
   timeElapsed: number;
   moveHistory: Move[];
+  redoHistory: Move[]; // Undone moves, most recently undone last
+  playLog: PlayEvent[]; // Every move, undo and redo in the order they happened
+  mistakes: number;
+  hintsUsed: number;
   isCompleted: boolean;
   createdAt: number;
+  daily?: DailyChallengeInfo;
+  symbols?: SymbolSet; // Absent means 'digits'
+  cages?: Cage[]; // Only in Killer games
+  regions?: RegionMap; // Only in Jigsaw games
+  layout?: GridLayout; // Only in Samurai games
+  constraints?: ConstraintType[]; // Absent means the classic row, column and box rules
+  errorCheckMode?: ErrorCheckMode; // The most helpful mode used during the game; absent means 'conflicts'
+};
+
+// How entries are checked while playing: not at all, for clashes with the
+// rules, or against the solution. Games checked against the solution count
+// as assisted in statistics and best scores.
+export type ErrorCheckMode = 'off' | 'conflicts' | 'solution';
+
+export type GameOutcome = 'completed' | 'abandoned';
+
+// A finished or abandoned game kept in the history. Notes and undone moves
+// are dropped to keep the history small.
+export type GameHistoryEntry = Omit<GameData, 'notes' | 'redoHistory' | 'isCompleted' | 'playLog'> & {
+  playLog?: PlayEvent[]; // Absent on games archived before play was recorded
+  outcome: GameOutcome;
+  endedAt: number;
+};
+
+export type DailyChallengeInfo = {
+  date: string; // YYYY-MM-DD, local calendar day
+  isReplay: boolean;
+};
+
+export type MoveKind = 'value' | 'note' | 'candidates' | 'hint';
+
+export type NoteChange = {
+  position: Position;
+  previousNotes: Digit[];
+  newNotes: Digit[];
 };
 
 export type Move = {
@@ -28,30 +146,238 @@ export type Move = {
   previousValue: CellValue;
   newValue: CellValue;
   timestamp: number;
+  kind?: MoveKind; // Missing on moves saved before notes existed; treated as 'value'
+  noteChanges?: NoteChange[];
 };
 
-export type GameStats = {
-  gamesPlayed: number;
+// One entry in a game's record of play. Undos and redos take back or restore
+// the latest move the same way the game's own undo and redo do.
+export type PlayEvent =
+  | { action: 'move'; move: Move }
+  | { action: 'undo' | 'redo'; timestamp: number };
+
+// The board after one event of a replayed game
+export type ReplayStep = {
+  event: PlayEvent;
+  move: Move; // The move made, taken back or restored
+  timestamp: number;
+  grid: SudokuGrid;
+  isUndone: boolean; // A move that was taken back later and never restored
+  isWrong: boolean; // A value that doesn't match the solution
+};
+
+// Statistics for one difficulty. Times are in seconds and only count
+// completed games.
+export type DifficultyStats = {
+  gamesPlayed: number; // Every game started, finished or not
   gamesCompleted: number;
-  winRate: number;
-  averageTime: number;
-  bestTimes: {
-    easy: number | null;
-    medium: number | null;
-    hard: number | null;
-  };
-  totalPlayTime: number;
+  assistedCompleted: number; // Completed games that were checked against the solution
+  bestTime: number | null;
+  unassistedBestTime: number | null;
+  totalTime: number;
+  recentTimes: number[]; // The latest completion times, oldest first
 };
 
+export type GameStats = Record<Difficulty, DifficultyStats>;
+
+// Statistics for each game mode played, by GameModes.getKey
+export type GameStatsByMode = Record<string, GameStats>;
+
 export type UserPreferences = {
-  soundEnabled: boolean;
-  highlightErrors: boolean;
+  errorCheckMode: ErrorCheckMode;
   showTimer: boolean;
-  theme: 'light' | 'dark';
+  autoCandidates: boolean;
+  theme: ThemeMode;
+  palette: ThemePalette;
 };
 
+// 'system' follows the device's light or dark setting
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+// Color sets available in both light and dark: the standard colors, one
+// that never pairs red with green, and one with maximum contrast
+export type ThemePalette = 'standard' | 'deuteranopia' | 'highContrast';
+
 export type ValidationResult = {
   isValid: boolean;
   conflicts: Position[];
   isCompleted: boolean;
-};
\ No newline at end of file
+  brokenCages?: number[]; // Indexes of Killer cages that repeat a digit or miss their sum
+  wrongCells?: Position[]; // Entries that differ from the solution; only when checking against it, or with checking off once the board is full
+};
+
+export type Digit = Exclude<CellValue, null>;
+
+// Diagonals are 0 for top-left to bottom-right and 1 for top-right to
+// bottom-left; windows are Windoku's extra boxes
+export type HouseType = 'row' | 'column' | 'box' | 'diagonal' | 'window';
+
+export type House = {
+  type: HouseType;
+  index: number;
+  grid?: number; // Which grid of a multi-grid board the house is in
+};
+
+export type Candidate = {
+  position: Position;
+  value: Digit;
+};
+
+export type SolvingTechnique =
+  | 'nakedSingle'
+  | 'hiddenSingle'
+  | 'pointing'
+  | 'claiming'
+  | 'nakedPair'
+  | 'hiddenPair'
+  | 'nakedTriple'
+  | 'hiddenTriple'
+  | 'xWing'
+  | 'xyWing'
+  | 'swordfish'
+  | 'simpleColoring';
+
+export type SolveStep = {
+  technique: SolvingTechnique;
+  houses: House[];
+  cells: Position[];
+  placements: Candidate[];
+  eliminations: Candidate[];
+};
+
+export type LogicalSolveStatus = 'solved' | 'requiresGuessing' | 'invalid';
+
+export type LogicalSolveResult = {
+  status: LogicalSolveStatus;
+  steps: SolveStep[];
+  grid: SudokuGrid;
+};
+
+export type PuzzleGrade = {
+  difficulty: Difficulty;
+  hardestTechnique: SolvingTechnique | null;
+  score: number;
+  requiresGuessing: boolean;
+};
+
+export type DailyResult = {
+  date: string;
+  completed: boolean;
+  timeElapsed: number;
+  mistakes: number;
+  hintsUsed: number;
+  completedAt: number | null;
+};
+
+export type DailyStreak = {
+  current: number;
+  longest: number;
+  lastCompletedDate: string | null;
+};
+
+// What earns an achievement. A 'solve' rule is met by one completed game
+// matching every condition it gives; the others by running totals.
+export type AchievementRule =
+  | {
+      type: 'solve';
+      difficulty?: Difficulty;
+      size?: GridSize;
+      variant?: Variant;
+      maxTime?: number; // Seconds
+      maxHints?: number;
+      maxMistakes?: number;
+      unassisted?: boolean; // Not checked against the solution
+    }
+  | { type: 'gamesCompleted'; count: number; difficulty?: Difficulty; size?: GridSize; variant?: Variant }
+  | { type: 'dailyStreak'; days: number }; // Met by the longest streak so far
+
+export type Achievement = {
+  id: string;
+  title: string;
+  description: string;
+  rule: AchievementRule;
+};
+
+export type AchievementProgress = {
+  current: number;
+  goal: number;
+};
+
+// When each earned achievement was unlocked, by achievement id
+export type UnlockedAchievements = Record<string, number>;
+
+// Hints are revealed in stages: 1 names the technique and house,
+// 2 highlights the cells involved, 3 shows the placement or eliminations
+export type HintStage = 1 | 2 | 3;
+
+export type Hint =
+  | { kind: 'technique'; stage: HintStage; step: SolveStep }
+  | { kind: 'mistake'; stage: HintStage; position: Position }
+  | { kind: 'reveal'; stage: HintStage; placement: Candidate };
+
+export type HintOverlay = {
+  houseCells: Position[];
+  focusCells: Position[];
+  placements: Candidate[];
+  eliminations: Candidate[];
+};
+
+export type PuzzleFormatType = 'line' | 'sdk' | 'json';
+
+export type PuzzleImportErrorCode = 'malformed' | 'duplicateGivens' | 'noSolution' | 'multipleSolutions';
+
+export type PuzzleImportError = {
+  code: PuzzleImportErrorCode;
+  message: string;
+  conflicts: Position[];
+};
+
+export type ImportedPuzzle = {
+  format: PuzzleFormatType;
+  givens: SudokuGrid;
+  solution: SudokuGrid;
+  // Only the JSON format carries progress
+  progress?: SudokuGrid;
+  notes?: NoteGrid;
+  timeElapsed?: number;
+  constraints?: ConstraintType[];
+};
+
+export type PuzzleImportResult =
+  | { ok: true; puzzle: ImportedPuzzle }
+  | { ok: false; error: PuzzleImportError };
+
+export type GeneratedPuzzle = {
+  puzzle: SudokuGrid;
+  solution: SudokuGrid;
+  // Killer puzzles are not graded; the logical solver knows nothing of cages
+  grade?: PuzzleGrade;
+  seed: number;
+  cages?: Cage[];
+  regions?: RegionMap;
+  layout?: GridLayout;
+  constraints?: ConstraintType[]; // Only when the rules go beyond classic
+};
+
+// Generation makes several candidate puzzles and keeps the first whose
+// grade matches; attemptProgress is how far the current candidate has got
+export type GenerationProgress = {
+  attempt: number;
+  attemptProgress: number;
+};
+
+export type GenerationOptions = {
+  size?: GridSize; // Defaults to 9
+  variant?: Variant; // Defaults to 'classic'
+  constraints?: ConstraintType[]; // Defaults to the classic row, column and box rules
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+  // After this, the closest candidate so far is used even if its grade misses
+  timeoutMs?: number;
+};
+
+export type NewGameOptions = GenerationOptions & {
+  symbols?: SymbolSet;
+};
+
+export type PooledPuzzles = Record<Difficulty, GeneratedPuzzle[]>;
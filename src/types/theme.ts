@@ -0,0 +1,64 @@
+// Semantic color tokens. Screens and components pick colors by role, so each
+// theme only has to say what a role looks like.
+export type ThemeColors = {
+  // Screens, headers and cards
+  background: string;
+  surface: string;
+  text: string;
+  textMuted: string;
+  textFaint: string;
+
+  // Buttons and status colors; onAccent is text drawn on any of them
+  accent: string;
+  success: string;
+  warning: string;
+  danger: string;
+  special: string;
+  onAccent: string;
+  disabled: string;
+  disabledText: string;
+  easy: string;
+  medium: string;
+  hard: string;
+
+  // The panel holding the game controls and number pad
+  controlsBackground: string;
+  controlsSurface: string;
+  padButton: string;
+  padBorder: string;
+  padText: string;
+  padDisabled: string;
+  padDisabledBorder: string;
+  padDisabledText: string;
+
+  // The board
+  boardBorder: string;
+  boxLine: string;
+  cellLine: string;
+  cell: string;
+  givenCell: string;
+  given: string;
+  userEntry: string;
+  selection: string;
+  peerHighlight: string;
+  conflict: string;
+  conflictText: string;
+  wrongEntry: string;
+  note: string;
+  eliminatedNote: string;
+  hintHouse: string;
+  hintFocus: string;
+  hintPlacement: string;
+  completed: string;
+  completedText: string;
+  cage: string;
+  cageSum: string;
+  brokenCage: string;
+  ruleShade: string;
+  ruleLine: string;
+};
+
+export type Theme = {
+  scheme: 'light' | 'dark'; // The mode in effect once 'system' is resolved
+  colors: ThemeColors;
+};
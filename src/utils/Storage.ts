@@ -1,5 +1,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { GameData, GameStats, UserPreferences } from '../types/game';
+import {
+  DailyResult,
+  DailyStreak,
+  Difficulty,
+  DifficultyStats,
+  GameData,
+  GameHistoryEntry,
+  GameMode,
+  GameOutcome,
+  GameStats,
+  GameStatsByMode,
+  GeneratedPuzzle,
+  PooledPuzzles,
+  SudokuGrid,
+  UnlockedAchievements,
+  UserPreferences,
+} from '../types/game';
+import { DailyChallenge } from '../game/DailyChallenge';
+import { GameModes } from '../game/GameModes';
+
+// One mode's statistics as saved, possibly by an older version
+type SavedModeStats = Partial<GameStats> & { bestTimes?: Record<Difficulty, number | null> };
 
 export class Storage {
   // Storage keys
@@ -8,89 +29,169 @@ export class Storage {
     USER_PREFERENCES: 'sudoku_user_preferences',
     CURRENT_GAME: 'sudoku_current_game',
     HIGH_SCORES: 'sudoku_high_scores',
+    DAILY_RESULTS: 'sudoku_daily_results',
+    DAILY_STREAK: 'sudoku_daily_streak',
+    PUZZLE_POOL: 'sudoku_puzzle_pool',
+    RECENT_PUZZLES: 'sudoku_recent_puzzles',
+    GAME_HISTORY: 'sudoku_game_history',
+    ACHIEVEMENTS: 'sudoku_achievements',
   };
 
+  // How many played puzzles are remembered to avoid serving them again
+  private static readonly RECENT_PUZZLE_LIMIT = 200;
+  // How many completion times are kept per difficulty for medians and trends
+  private static readonly RECENT_TIME_LIMIT = 50;
+  // How many games the history keeps, and roughly how many characters they
+  // may take up; the oldest games are pruned past either limit
+  private static readonly HISTORY_LIMIT = 100;
+  private static readonly HISTORY_SIZE_LIMIT = 1_000_000;
+
   // Default values
-  private static readonly DEFAULT_STATS: GameStats = {
+  private static readonly EMPTY_DIFFICULTY_STATS: DifficultyStats = {
     gamesPlayed: 0,
     gamesCompleted: 0,
-    winRate: 0,
-    averageTime: 0,
-    bestTimes: {
-      easy: null,
-      medium: null,
-      hard: null,
-    },
-    totalPlayTime: 0,
+    assistedCompleted: 0,
+    bestTime: null,
+    unassistedBestTime: null,
+    totalTime: 0,
+    recentTimes: [],
+  };
+
+  private static readonly DEFAULT_STATS: GameStats = {
+    easy: Storage.EMPTY_DIFFICULTY_STATS,
+    medium: Storage.EMPTY_DIFFICULTY_STATS,
+    hard: Storage.EMPTY_DIFFICULTY_STATS,
   };
 
   private static readonly DEFAULT_PREFERENCES: UserPreferences = {
-    soundEnabled: true,
-    highlightErrors: true,
+    errorCheckMode: 'conflicts',
     showTimer: true,
+    autoCandidates: false,
     theme: 'light',
+    palette: 'standard',
+  };
+
+  private static readonly DEFAULT_STREAK: DailyStreak = {
+    current: 0,
+    longest: 0,
+    lastCompletedDate: null,
   };
 
   /**
    * Game Statistics Methods
    */
-  static async getGameStats(): Promise<GameStats> {
+  static async getGameStats(): Promise<GameStatsByMode> {
     try {
       const statsJson = await AsyncStorage.getItem(this.KEYS.GAME_STATS);
       if (statsJson) {
-        return JSON.parse(statsJson);
+        return this.parseGameStats(JSON.parse(statsJson));
       }
-      return this.DEFAULT_STATS;
+      return {};
     } catch (error) {
       console.error('Error loading game stats:', error);
-      return this.DEFAULT_STATS;
+      return {};
     }
   }
 
-  static async updateGameStats(gameData: GameData): Promise<void> {
+  /**
+   * Gets one mode's statistics out of the statistics for every mode
+   */
+  static getModeStats(stats: GameStatsByMode, mode: GameMode): GameStats {
+    return stats[GameModes.getKey(mode)] ?? this.DEFAULT_STATS;
+  }
+
+  /**
+   * Counts a newly started game toward its mode and difficulty; resumed
+   * games were already counted when they started
+   */
+  static async recordGameStarted(difficulty: Difficulty, mode: GameMode): Promise<void> {
     try {
-      const currentStats = await this.getGameStats();
-      
-      const updatedStats: GameStats = {
-        gamesPlayed: currentStats.gamesPlayed + 1,
-        gamesCompleted: gameData.isCompleted 
-          ? currentStats.gamesCompleted + 1 
-          : currentStats.gamesCompleted,
-        winRate: 0, // Will be calculated below
-        averageTime: 0, // Will be calculated below
-        bestTimes: {
-          ...currentStats.bestTimes
+      const stats = await this.getGameStats();
+      const modeStats = this.getModeStats(stats, mode);
+      const current = modeStats[difficulty];
+      const updated: GameStatsByMode = {
+        ...stats,
+        [GameModes.getKey(mode)]: {
+          ...modeStats,
+          [difficulty]: { ...current, gamesPlayed: current.gamesPlayed + 1 },
         },
-        totalPlayTime: currentStats.totalPlayTime + gameData.timeElapsed,
       };
+      await AsyncStorage.setItem(this.KEYS.GAME_STATS, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error recording game start:', error);
+    }
+  }
 
-      // Calculate win rate
-      updatedStats.winRate = updatedStats.gamesPlayed > 0 
-        ? (updatedStats.gamesCompleted / updatedStats.gamesPlayed) * 100 
-        : 0;
-
-      // Calculate average time for completed games
-      updatedStats.averageTime = updatedStats.gamesCompleted > 0 
-        ? Math.floor(updatedStats.totalPlayTime / updatedStats.gamesCompleted)
-        : 0;
+  /**
+   * Adds a completed game's time to its mode and difficulty's statistics
+   */
+  static async updateGameStats(gameData: GameData): Promise<void> {
+    try {
+      if (!gameData.isCompleted) return;
 
-      // Update best times if the game was completed
-      if (gameData.isCompleted) {
-        const currentBestTime = updatedStats.bestTimes[gameData.difficulty];
-        if (currentBestTime === null || gameData.timeElapsed < currentBestTime) {
-          updatedStats.bestTimes[gameData.difficulty] = gameData.timeElapsed;
-        }
-      }
+      const stats = await this.getGameStats();
+      const mode = GameModes.of(gameData);
+      const modeStats = this.getModeStats(stats, mode);
+      const current = modeStats[gameData.difficulty];
+      const time = gameData.timeElapsed;
+      const isAssisted = gameData.errorCheckMode === 'solution';
+      const fastest = (best: number | null) => best === null ? time : Math.min(best, time);
+      const updated: GameStatsByMode = {
+        ...stats,
+        [GameModes.getKey(mode)]: {
+          ...modeStats,
+          [gameData.difficulty]: {
+            gamesPlayed: current.gamesPlayed,
+            gamesCompleted: current.gamesCompleted + 1,
+            assistedCompleted: current.assistedCompleted + (isAssisted ? 1 : 0),
+            bestTime: fastest(current.bestTime),
+            unassistedBestTime: isAssisted ? current.unassistedBestTime : fastest(current.unassistedBestTime),
+            totalTime: current.totalTime + time,
+            recentTimes: [...current.recentTimes, time].slice(-this.RECENT_TIME_LIMIT),
+          },
+        },
+      };
 
-      await AsyncStorage.setItem(this.KEYS.GAME_STATS, JSON.stringify(updatedStats));
+      await AsyncStorage.setItem(this.KEYS.GAME_STATS, JSON.stringify(updated));
     } catch (error) {
       console.error('Error updating game stats:', error);
     }
   }
 
+  /**
+   * Reads stored statistics. Older versions kept one set for every mode,
+   * which can't be split, so it carries over as classic 9x9's.
+   */
+  private static parseGameStats(saved: Record<string, SavedModeStats> | SavedModeStats): GameStatsByMode {
+    const byMode: Record<string, SavedModeStats> = 'easy' in saved || 'bestTimes' in saved
+      ? { [GameModes.getKey(GameModes.CLASSIC)]: saved as SavedModeStats }
+      : saved as Record<string, SavedModeStats>;
+    return Object.fromEntries(Object.entries(byMode).map(([key, modeStats]) => [key, this.parseModeStats(modeStats)]));
+  }
+
+  /**
+   * Reads one mode's statistics. Older versions kept one set of totals for
+   * all difficulties, which can't be split, so only their best times carry
+   * over. Games from before error checking could be chosen only checked
+   * conflicts, so they all count as unassisted.
+   */
+  private static parseModeStats(saved: SavedModeStats): GameStats {
+    const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+    return Object.fromEntries(difficulties.map(difficulty => {
+      const stats = saved[difficulty];
+      const bestTime = stats ? stats.bestTime : saved.bestTimes?.[difficulty] ?? null;
+      return [difficulty, {
+        ...this.EMPTY_DIFFICULTY_STATS,
+        bestTime,
+        unassistedBestTime: bestTime,
+        ...stats,
+      }];
+    })) as GameStats;
+  }
+
   static async resetGameStats(): Promise<void> {
     try {
-      await AsyncStorage.setItem(this.KEYS.GAME_STATS, JSON.stringify(this.DEFAULT_STATS));
+      await AsyncStorage.removeItem(this.KEYS.GAME_STATS);
     } catch (error) {
       console.error('Error resetting game stats:', error);
     }
@@ -103,7 +204,14 @@ export class Storage {
     try {
       const prefsJson = await AsyncStorage.getItem(this.KEYS.USER_PREFERENCES);
       if (prefsJson) {
-        return { ...this.DEFAULT_PREFERENCES, ...JSON.parse(prefsJson) };
+        // Older versions only had a switch for highlighting conflicts, and
+        // kept a sound setting nothing used
+        const { highlightErrors, soundEnabled, ...saved } = JSON.parse(prefsJson);
+        return {
+          ...this.DEFAULT_PREFERENCES,
+          ...(highlightErrors === false && { errorCheckMode: 'off' }),
+          ...saved,
+        };
       }
       return this.DEFAULT_PREFERENCES;
     } catch (error) {
@@ -185,14 +293,17 @@ export class Storage {
       const currentScores = await this.getHighScores();
       const newScores = [...currentScores, gameData];
 
-      // Sort by time (ascending) and keep top 10 for each difficulty
+      // Sort by time (ascending) and keep top 10 for each mode and difficulty
+      const mode = GameModes.of(gameData);
+      const isSameList = (game: GameData) =>
+        game.difficulty === gameData.difficulty && GameModes.isSame(GameModes.of(game), mode);
       const sortedScores = newScores
-        .filter(game => game.isCompleted && game.difficulty === gameData.difficulty)
+        .filter(game => game.isCompleted && isSameList(game))
         .sort((a, b) => a.timeElapsed - b.timeElapsed)
         .slice(0, 10);
 
-      // Merge with scores from other difficulties
-      const otherScores = newScores.filter(game => game.difficulty !== gameData.difficulty);
+      // Merge with scores from other modes and difficulties
+      const otherScores = newScores.filter(game => !isSameList(game));
       const allScores = [...otherScores, ...sortedScores];
 
       await AsyncStorage.setItem(this.KEYS.HIGH_SCORES, JSON.stringify(allScores));
@@ -209,6 +320,259 @@ export class Storage {
     }
   }
 
+  /**
+   * Game History Methods
+   */
+  // Newest first
+  static async getGameHistory(): Promise<GameHistoryEntry[]> {
+    try {
+      const historyJson = await AsyncStorage.getItem(this.KEYS.GAME_HISTORY);
+      return historyJson ? JSON.parse(historyJson) : [];
+    } catch (error) {
+      console.error('Error loading game history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Archives a game as it ends. A game is only archived once, so a completed
+   * game isn't archived again as abandoned before its save is cleared.
+   */
+  static async addGameHistory(gameData: GameData, outcome: GameOutcome): Promise<void> {
+    try {
+      const history = await this.getGameHistory();
+      if (history.some(entry => entry.id === gameData.id)) return;
+
+      const { notes, redoHistory, isCompleted, ...game } = gameData;
+      const entry: GameHistoryEntry = { ...game, outcome, endedAt: Date.now() };
+      const updated = [entry, ...history].slice(0, this.HISTORY_LIMIT);
+
+      // Move lists make some games far larger than others, so also prune by size
+      let size = updated.reduce((total, kept) => total + JSON.stringify(kept).length, 0);
+      while (updated.length > 1 && size > this.HISTORY_SIZE_LIMIT) {
+        size -= JSON.stringify(updated.pop()).length;
+      }
+
+      await AsyncStorage.setItem(this.KEYS.GAME_HISTORY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error adding game history:', error);
+    }
+  }
+
+  /**
+   * Archives the saved game as abandoned and clears it, for when the player
+   * starts something else instead of continuing it
+   */
+  static async abandonCurrentGame(): Promise<void> {
+    const savedGame = await this.loadCurrentGame();
+    if (savedGame && !savedGame.isCompleted) {
+      await this.addGameHistory(savedGame, 'abandoned');
+    }
+    await this.clearCurrentGame();
+  }
+
+  static async clearGameHistory(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.KEYS.GAME_HISTORY);
+    } catch (error) {
+      console.error('Error clearing game history:', error);
+    }
+  }
+
+  /**
+   * Achievement Methods
+   */
+  static async getUnlockedAchievements(): Promise<UnlockedAchievements> {
+    try {
+      const achievementsJson = await AsyncStorage.getItem(this.KEYS.ACHIEVEMENTS);
+      return achievementsJson ? JSON.parse(achievementsJson) : {};
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Marks achievements as unlocked now; ones already unlocked keep their
+   * original time
+   */
+  static async unlockAchievements(ids: string[]): Promise<void> {
+    try {
+      const unlocked = await this.getUnlockedAchievements();
+      const now = Date.now();
+      const updated = { ...Object.fromEntries(ids.map(id => [id, now])), ...unlocked };
+      await AsyncStorage.setItem(this.KEYS.ACHIEVEMENTS, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error unlocking achievements:', error);
+    }
+  }
+
+  /**
+   * Daily Challenge Methods
+   */
+  static async getDailyResults(): Promise<Record<string, DailyResult>> {
+    try {
+      const resultsJson = await AsyncStorage.getItem(this.KEYS.DAILY_RESULTS);
+      if (resultsJson) {
+        return JSON.parse(resultsJson);
+      }
+      return {};
+    } catch (error) {
+      console.error('Error loading daily results:', error);
+      return {};
+    }
+  }
+
+  static async getDailyResult(date: string): Promise<DailyResult | null> {
+    const results = await this.getDailyResults();
+    return results[date] ?? null;
+  }
+
+  /**
+   * Records the outcome of a daily challenge. Replays of past or already
+   * completed days are ignored so they never touch results or the streak.
+   */
+  static async recordDailyResult(gameData: GameData): Promise<void> {
+    try {
+      if (!gameData.daily || gameData.daily.isReplay) return;
+
+      const { date } = gameData.daily;
+      const results = await this.getDailyResults();
+      if (results[date]?.completed) return;
+
+      results[date] = {
+        date,
+        completed: gameData.isCompleted,
+        timeElapsed: gameData.timeElapsed,
+        mistakes: gameData.mistakes,
+        hintsUsed: gameData.hintsUsed,
+        completedAt: gameData.isCompleted ? Date.now() : null,
+      };
+      await AsyncStorage.setItem(this.KEYS.DAILY_RESULTS, JSON.stringify(results));
+
+      if (gameData.isCompleted) {
+        await this.updateDailyStreak(date);
+      }
+    } catch (error) {
+      console.error('Error recording daily result:', error);
+    }
+  }
+
+  /**
+   * Gets the streak as of today; a streak whose last completion is older
+   * than yesterday has already been broken
+   */
+  static async getDailyStreak(today: string = DailyChallenge.getDateKey()): Promise<DailyStreak> {
+    try {
+      const streakJson = await AsyncStorage.getItem(this.KEYS.DAILY_STREAK);
+      const streak: DailyStreak = streakJson ? JSON.parse(streakJson) : this.DEFAULT_STREAK;
+
+      const isAlive =
+        streak.lastCompletedDate === today ||
+        streak.lastCompletedDate === DailyChallenge.addDays(today, -1);
+      return isAlive ? streak : { ...streak, current: 0 };
+    } catch (error) {
+      console.error('Error loading daily streak:', error);
+      return this.DEFAULT_STREAK;
+    }
+  }
+
+  private static async updateDailyStreak(date: string): Promise<void> {
+    const streak = await this.getDailyStreak(date);
+    if (streak.lastCompletedDate === date) return;
+
+    const current = streak.current + 1;
+    const updatedStreak: DailyStreak = {
+      current,
+      longest: Math.max(streak.longest, current),
+      lastCompletedDate: date,
+    };
+    await AsyncStorage.setItem(this.KEYS.DAILY_STREAK, JSON.stringify(updatedStreak));
+  }
+
+  /**
+   * Puzzle Pool Methods
+   */
+  static async getPuzzlePool(): Promise<PooledPuzzles> {
+    try {
+      const poolJson = await AsyncStorage.getItem(this.KEYS.PUZZLE_POOL);
+      return { easy: [], medium: [], hard: [], ...(poolJson ? JSON.parse(poolJson) : {}) };
+    } catch (error) {
+      console.error('Error loading puzzle pool:', error);
+      return { easy: [], medium: [], hard: [] };
+    }
+  }
+
+  /**
+   * Adds a ready-made puzzle to the pool; returns false if it was played
+   * recently or is already pooled
+   */
+  static async addPooledPuzzle(difficulty: Difficulty, puzzle: GeneratedPuzzle): Promise<boolean> {
+    try {
+      const [pool, recent] = await Promise.all([this.getPuzzlePool(), this.getRecentPuzzles()]);
+      const key = this.getPuzzleKey(puzzle.puzzle);
+      const isPooled = pool[difficulty].some(pooled => this.getPuzzleKey(pooled.puzzle) === key);
+      if (isPooled || recent.includes(key)) return false;
+
+      pool[difficulty].push(puzzle);
+      await AsyncStorage.setItem(this.KEYS.PUZZLE_POOL, JSON.stringify(pool));
+      return true;
+    } catch (error) {
+      console.error('Error adding pooled puzzle:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes and returns the oldest pooled puzzle that hasn't been played
+   * recently; stale ones are dropped along the way
+   */
+  static async takePooledPuzzle(difficulty: Difficulty): Promise<GeneratedPuzzle | null> {
+    try {
+      const [pool, recent] = await Promise.all([this.getPuzzlePool(), this.getRecentPuzzles()]);
+
+      let puzzle: GeneratedPuzzle | null = null;
+      while (!puzzle && pool[difficulty].length > 0) {
+        const next = pool[difficulty].shift()!;
+        if (!recent.includes(this.getPuzzleKey(next.puzzle))) {
+          puzzle = next;
+        }
+      }
+
+      await AsyncStorage.setItem(this.KEYS.PUZZLE_POOL, JSON.stringify(pool));
+      return puzzle;
+    } catch (error) {
+      console.error('Error taking pooled puzzle:', error);
+      return null;
+    }
+  }
+
+  static async getRecentPuzzles(): Promise<string[]> {
+    try {
+      const recentJson = await AsyncStorage.getItem(this.KEYS.RECENT_PUZZLES);
+      return recentJson ? JSON.parse(recentJson) : [];
+    } catch (error) {
+      console.error('Error loading recent puzzles:', error);
+      return [];
+    }
+  }
+
+  static async recordPlayedPuzzle(givens: SudokuGrid): Promise<void> {
+    try {
+      const key = this.getPuzzleKey(givens);
+      const recent = (await this.getRecentPuzzles()).filter(played => played !== key);
+      const updated = [key, ...recent].slice(0, this.RECENT_PUZZLE_LIMIT);
+      await AsyncStorage.setItem(this.KEYS.RECENT_PUZZLES, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error recording played puzzle:', error);
+    }
+  }
+
+  // Puzzles are identified by their givens written out as one line
+  private static getPuzzleKey(givens: SudokuGrid): string {
+    return givens.map(row => row.map(value => value ?? '.').join('')).join('');
+  }
+
   /**
    * Utility Methods
    */
@@ -219,6 +583,12 @@ export class Storage {
         AsyncStorage.removeItem(this.KEYS.USER_PREFERENCES),
         AsyncStorage.removeItem(this.KEYS.CURRENT_GAME),
         AsyncStorage.removeItem(this.KEYS.HIGH_SCORES),
+        AsyncStorage.removeItem(this.KEYS.DAILY_RESULTS),
+        AsyncStorage.removeItem(this.KEYS.DAILY_STREAK),
+        AsyncStorage.removeItem(this.KEYS.PUZZLE_POOL),
+        AsyncStorage.removeItem(this.KEYS.RECENT_PUZZLES),
+        AsyncStorage.removeItem(this.KEYS.GAME_HISTORY),
+        AsyncStorage.removeItem(this.KEYS.ACHIEVEMENTS),
       ]);
     } catch (error) {
       console.error('Error clearing all data:', error);
@@ -259,10 +629,13 @@ export class Storage {
    */
   static async exportData(): Promise<string | null> {
     try {
-      const [stats, preferences, highScores] = await Promise.all([
+      const [stats, preferences, highScores, dailyResults, dailyStreak, achievements] = await Promise.all([
         this.getGameStats(),
         this.getUserPreferences(),
         this.getHighScores(),
+        this.getDailyResults(),
+        this.getDailyStreak(),
+        this.getUnlockedAchievements(),
       ]);
 
       const exportData = {
@@ -271,6 +644,9 @@ export class Storage {
         stats,
         preferences,
         highScores,
+        dailyResults,
+        dailyStreak,
+        achievements,
       };
 
       return JSON.stringify(exportData, null, 2);
@@ -296,6 +672,15 @@ export class Storage {
         importData.highScores 
           ? AsyncStorage.setItem(this.KEYS.HIGH_SCORES, JSON.stringify(importData.highScores))
           : Promise.resolve(),
+        importData.dailyResults
+          ? AsyncStorage.setItem(this.KEYS.DAILY_RESULTS, JSON.stringify(importData.dailyResults))
+          : Promise.resolve(),
+        importData.dailyStreak
+          ? AsyncStorage.setItem(this.KEYS.DAILY_STREAK, JSON.stringify(importData.dailyStreak))
+          : Promise.resolve(),
+        importData.achievements
+          ? AsyncStorage.setItem(this.KEYS.ACHIEVEMENTS, JSON.stringify(importData.achievements))
+          : Promise.resolve(),
       ]);
 
       return true;